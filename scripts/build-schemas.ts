@@ -5,33 +5,64 @@
  */
 
 import { resolve } from "node:path";
-import { buildAllSchemas } from "@/bundler/index";
+import { buildAllSchemas, createReporter, SchemaBuildError } from "@/bundler/index";
 
 const schemasDir = resolve(process.cwd(), "src/schemas");
 const outputDir = resolve(process.cwd(), "result");
 
 // Get CLI arguments (skip first 2 which are node and script path)
 const cliArgs = process.argv.slice(2);
+const strict = cliArgs.includes("--strict");
+const continueOnError = cliArgs.includes("--continue-on-error");
+// Rebuild every schema instead of reusing the unchanged ones from result/
+const force = cliArgs.includes("--force");
+const reporterIndex = cliArgs.indexOf("--reporter");
+const reporterName = reporterIndex === -1 ? "pretty" : cliArgs[reporterIndex + 1];
+const reporter = createReporter(reporterName);
+// Keep stdout machine-readable for the json reporter
+const log = reporterName === "pretty" ? console.log : () => {};
+const concurrencyIndex = cliArgs.indexOf("--concurrency");
+const concurrency = concurrencyIndex === -1 ? undefined : Number(cliArgs[concurrencyIndex + 1]);
+if (concurrency !== undefined && !(Number.isInteger(concurrency) && concurrency > 0)) {
+  console.error(`✗ Invalid --concurrency: ${cliArgs[concurrencyIndex + 1]}`);
+  process.exit(1);
+}
 
-console.log("=".repeat(60));
-console.log("TokenScript Schema Builder");
-console.log("=".repeat(60));
-console.log(`Source directory: ${schemasDir}`);
-console.log(`Output directory: ${outputDir}`);
+log("=".repeat(60));
+log("TokenScript Schema Builder");
+log("=".repeat(60));
+log(`Source directory: ${schemasDir}`);
+log(`Output directory: ${outputDir}`);
+if (strict) {
+  log("Strict mode: unresolved script references fail the build");
+}
 
 try {
-  const registry = await buildAllSchemas(schemasDir, outputDir, { cliArgs });
+  const registry = await buildAllSchemas(schemasDir, outputDir, {
+    cliArgs,
+    strict,
+    concurrency,
+    continueOnError,
+    reporter,
+    incremental: !force,
+  });
 
-  console.log(`\n${"=".repeat(60)}`);
-  console.log("Build Summary:");
-  console.log("=".repeat(60));
-  console.log(`Types: ${registry.types.length}`);
-  console.log(`Functions: ${registry.functions.length}`);
-  console.log(`Total: ${registry.metadata.totalSchemas}`);
-  console.log(`Version: ${registry.version}`);
-  console.log(`Generated: ${registry.metadata.generatedAt}`);
-  console.log("\n✓ All schemas built successfully!");
+  log(`\n${"=".repeat(60)}`);
+  log("Build Summary:");
+  log("=".repeat(60));
+  log(`Types: ${registry.types.length}`);
+  log(`Functions: ${registry.functions.length}`);
+  log(`Total: ${registry.metadata.totalSchemas}`);
+  log(`Version: ${registry.version}`);
+  log(`Generated: ${registry.metadata.generatedAt}`);
+  // With --continue-on-error, failures were already listed above
+  log(continueOnError ? "\n✓ Registry written" : "\n✓ All schemas built successfully!");
 } catch (error) {
+  if (error instanceof SchemaBuildError) {
+    console.error(`\n✗ ${error.message}`);
+    console.error("\nRerun with --continue-on-error to write the registry without them.");
+    process.exit(1);
+  }
   console.error("\n✗ Failed to build schemas:", error);
   process.exit(1);
 }
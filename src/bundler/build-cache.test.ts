@@ -0,0 +1,41 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { hashSchemaInputs } from "./build-cache.js";
+
+describe("Build Cache", () => {
+  const testDir = join(process.cwd(), "test-build-cache");
+
+  beforeAll(async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(
+      join(testDir, "schema.json"),
+      JSON.stringify({
+        name: "Invert",
+        type: "function",
+        keyword: "invert",
+        script: { type: "/api/v1/core/tokenscript/0/", script: "./invert.tokenscript" },
+      }),
+    );
+    await writeFile(join(testDir, "invert.tokenscript"), "1");
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should change with referenced scripts and options only", async () => {
+    const hash = await hashSchemaInputs(testDir);
+
+    await writeFile(join(testDir, "unused.tokenscript"), "unused");
+    expect(await hashSchemaInputs(testDir)).toBe(hash);
+    expect(await hashSchemaInputs(testDir, { strict: true })).not.toBe(hash);
+
+    await writeFile(join(testDir, "invert.tokenscript"), "2");
+    expect(await hashSchemaInputs(testDir)).not.toBe(hash);
+  });
+
+  it("should return null for unreadable schemas", async () => {
+    expect(await hashSchemaInputs(join(testDir, "missing"))).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Incremental build cache for buildAllSchemas
+ *
+ * A manifest per output directory records a content hash of every built schema's inputs
+ * (schema.json and the scripts it references). Schemas whose hash is unchanged are read back
+ * from their previous output instead of being rebuilt and rewritten. Manifests live in a cache
+ * directory outside the output, which is published.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { collectScriptValues } from "@/bundler/script-references.js";
+import type { SchemaSpecification } from "@/bundler/types.js";
+
+export const DEFAULT_BUILD_CACHE_DIR = join("node_modules", ".cache", "tokenscript-schemas");
+
+/**
+ * Bump when the build output changes for the same inputs, invalidating existing caches
+ */
+const BUILD_CACHE_VERSION = 1;
+
+export interface BuildCacheEntry {
+  hash: string;
+  output: string; // Output file relative to the output directory, e.g. "types/rgb-color.json"
+}
+
+export interface BuildCacheManifest {
+  version: number;
+  /** Entries keyed by `type:id` / `function:id` */
+  schemas: Record<string, BuildCacheEntry>;
+  /** Hash over all schema hashes and the registry metadata inputs the aggregate files came from */
+  aggregate?: string;
+}
+
+/**
+ * Hash the inputs of a schema build: schema.json, the scripts it references and the options
+ * Returns null when schema.json can't be read or parsed, the build reports that error.
+ */
+export async function hashSchemaInputs(
+  schemaDir: string,
+  options: Record<string, unknown> = {},
+): Promise<string | null> {
+  const hash = createHash("sha256");
+  hash.update(JSON.stringify({ version: BUILD_CACHE_VERSION, options }));
+
+  let schema: SchemaSpecification;
+  try {
+    const content = await readFile(join(schemaDir, "schema.json"), "utf-8");
+    hash.update(content);
+    schema = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  // Scripts referenced as "./file.tokenscript", the same references the build inlines
+  let scripts: Array<{ script: string }>;
+  try {
+    scripts = collectScriptValues(schema);
+  } catch {
+    return null;
+  }
+  for (const { script } of scripts) {
+    if (typeof script !== "string" || !script.startsWith("./")) continue;
+    hash.update(`\u0000${script}\u0000`);
+    try {
+      hash.update(await readFile(join(schemaDir, script.slice(2))));
+    } catch {
+      hash.update("\u0000missing");
+    }
+  }
+
+  return hash.digest("hex");
+}
+
+/**
+ * Hash a list of strings, e.g. the schema hashes an aggregate file was built from
+ */
+export function hashValues(values: string[]): string {
+  const hash = createHash("sha256");
+  for (const value of values) {
+    hash.update(`${value}\u0000`);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Manifest file of an output directory in a cache directory, named by a hash of its absolute path
+ */
+export function buildCachePath(cacheDir: string, outputDir: string): string {
+  const id = createHash("sha256").update(resolve(outputDir)).digest("hex").slice(0, 16);
+  return join(cacheDir, `build-${id}.json`);
+}
+
+/**
+ * Empty cache manifest
+ */
+export function createBuildCache(): BuildCacheManifest {
+  return { version: BUILD_CACHE_VERSION, schemas: {} };
+}
+
+/**
+ * Read the cache manifest of an output directory
+ * A missing, unreadable or outdated manifest yields an empty cache
+ */
+export async function readBuildCache(
+  cacheDir: string,
+  outputDir: string,
+): Promise<BuildCacheManifest> {
+  try {
+    const manifest = JSON.parse(
+      await readFile(buildCachePath(cacheDir, outputDir), "utf-8"),
+    ) as BuildCacheManifest;
+    if (manifest.version === BUILD_CACHE_VERSION && manifest.schemas) {
+      return manifest;
+    }
+  } catch {
+    // Rebuild everything
+  }
+  return createBuildCache();
+}
+
+export async function writeBuildCache(
+  cacheDir: string,
+  outputDir: string,
+  manifest: BuildCacheManifest,
+): Promise<void> {
+  await mkdir(cacheDir, { recursive: true });
+  await writeFile(buildCachePath(cacheDir, outputDir), `${JSON.stringify(manifest, null, 2)}\n`);
+}
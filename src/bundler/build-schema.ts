@@ -5,6 +5,9 @@
 
 import { readFile } from "node:fs/promises";
 import { join } from "node:path";
+import { createPrettyReporter, type Reporter } from "@/bundler/reporter.js";
+import { assertValidSchemaSpecification } from "@/bundler/schema-validator.js";
+import { checkScriptReferences, ScriptReferenceError } from "@/bundler/script-references.js";
 import type {
   ColorSpecification,
   FunctionSpecification,
@@ -18,6 +21,44 @@ export interface BundleOptions {
    * If not provided, keeps URIs as-is (useful for tests)
    */
   baseUrl?: string;
+
+  /**
+   * Fail on unresolved or misspelled script references and warn about
+   * orphaned .tokenscript files and empty scripts
+   * @default false
+   */
+  strict?: boolean;
+
+  /**
+   * Receives strict mode warnings
+   * Takes precedence over reporter
+   */
+  onWarning?: (message: string) => void;
+
+  /**
+   * Receives strict mode warnings as warning events
+   * @default pretty reporter
+   */
+  reporter?: Reporter;
+}
+
+/**
+ * Pass a strict mode warning to onWarning, or report it as a warning event
+ */
+export function reportStrictWarning(
+  schemaDir: string,
+  message: string,
+  options: BundleOptions,
+): void {
+  if (options.onWarning) {
+    options.onWarning(`⚠ ${schemaDir}: ${message}`);
+  } else {
+    (options.reporter ?? createPrettyReporter()).report({
+      type: "warning",
+      schema: schemaDir,
+      message,
+    });
+  }
 }
 
 /**
@@ -31,7 +72,20 @@ export async function buildSchemaFromDirectory(
   // Read schema.json which contains the full specification
   const schemaJsonPath = join(schemaDir, "schema.json");
   const schemaContent = await readFile(schemaJsonPath, "utf-8");
-  const schema = JSON.parse(schemaContent) as SchemaSpecification;
+  const schema: unknown = JSON.parse(schemaContent);
+
+  // Fail early with every structural problem instead of crashing in the interpreter later
+  assertValidSchemaSpecification(schema, schemaJsonPath);
+
+  if (options?.strict) {
+    const report = await checkScriptReferences(schemaDir, schema);
+    if (report.errors.length > 0) {
+      throw new ScriptReferenceError(schemaDir, report.errors);
+    }
+    for (const warning of report.warnings) {
+      reportStrictWarning(schemaDir, `${warning.location}: ${warning.message}`, options);
+    }
+  }
 
   if (schema.type === "function") {
     return await inlineFunctionScriptReferences(
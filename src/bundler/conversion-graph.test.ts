@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  analyzeConversionGraph,
+  buildConversionGraph,
+  findConversionPath,
+} from "./conversion-graph.js";
+import type { ColorSpecification, Conversion } from "./types.js";
+
+const BASE = "https://schema.tokenscript.dev.gcp.tokens.studio/api/v1/core";
+
+function conversion(source: string, target: string, lossless = true): Conversion {
+  return { source, target, lossless, script: { type: "tokenscript", script: "" } };
+}
+
+function entry(slug: string, conversions: Conversion[], version = "0") {
+  const schema: ColorSpecification = { name: slug, type: "color", initializers: [], conversions };
+  return { uri: `${BASE}/${slug}/${version}/`, schema };
+}
+
+// hex <-> rgb -> srgb -> lab (lossy), nothing converts back from lab
+const entries = [
+  entry("hex-color", []),
+  entry("rgb-color", [
+    conversion("/api/v1/core/hex-color/0/", "$self"),
+    conversion("$self", "/api/v1/core/hex-color/0/"),
+  ]),
+  entry("srgb-color", [conversion("/api/v1/core/rgb-color/0/", "$self")]),
+  entry("lab-color", [
+    conversion("/api/v1/core/srgb-color/0/", "$self", false),
+    conversion("/api/v1/core/xyz-d50-color/0/", "$self"),
+  ]),
+];
+
+describe("Conversion Graph", () => {
+  it("should build edges from conversions declared on either side", () => {
+    const graph = buildConversionGraph(entries);
+
+    expect(graph.types).toEqual(["hex-color", "rgb-color", "srgb-color", "lab-color"]);
+    expect(graph.edges).toEqual([
+      { source: "hex-color", target: "rgb-color", lossless: true },
+      { source: "rgb-color", target: "hex-color", lossless: true },
+      { source: "rgb-color", target: "srgb-color", lossless: true },
+      { source: "srgb-color", target: "lab-color", lossless: false },
+    ]);
+  });
+
+  it("should find multi-step paths and report lossiness", () => {
+    const graph = buildConversionGraph(entries);
+
+    expect(findConversionPath(graph, "hex-color", "srgb-color")).toEqual({
+      source: "hex-color",
+      target: "srgb-color",
+      reachable: true,
+      path: ["hex-color", "rgb-color", "srgb-color"],
+      length: 2,
+      lossless: true,
+    });
+    expect(findConversionPath(graph, "hex-color", "lab-color")).toMatchObject({
+      reachable: true,
+      length: 3,
+      lossless: false,
+    });
+  });
+
+  it("should prefer lossless paths of the same length", () => {
+    const graph = buildConversionGraph([
+      entry("a-color", []),
+      entry("b-color", [conversion("/api/v1/core/a-color/0/", "$self", false)]),
+      entry("c-color", [conversion("/api/v1/core/a-color/0/", "$self")]),
+      entry("d-color", [
+        conversion("/api/v1/core/b-color/0/", "$self"),
+        conversion("/api/v1/core/c-color/0/", "$self"),
+      ]),
+    ]);
+
+    expect(findConversionPath(graph, "a-color", "d-color")).toMatchObject({
+      path: ["a-color", "c-color", "d-color"],
+      lossless: true,
+    });
+  });
+
+  it("should match partial versions against bundled versions", () => {
+    const graph = buildConversionGraph([
+      entry("rgb-color", [], "1.2.0"),
+      entry("srgb-color", [conversion("/api/v1/core/rgb-color/1/", "$self")]),
+    ]);
+
+    expect(graph.edges).toEqual([
+      { source: "rgb-color@1.2.0", target: "srgb-color", lossless: true },
+    ]);
+  });
+
+  it("should report unreachable pairs", () => {
+    const { pairs, unreachable } = analyzeConversionGraph(entries);
+
+    expect(pairs).toHaveLength(12);
+    expect(unreachable.map(({ source, target }) => `${source} -> ${target}`)).toEqual([
+      "srgb-color -> hex-color",
+      "srgb-color -> rgb-color",
+      "lab-color -> hex-color",
+      "lab-color -> rgb-color",
+      "lab-color -> srgb-color",
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Conversion graph analysis for bundled color types
+ *
+ * Each color type declares conversions from or to other types, usually only on the target
+ * side (`"target": "$self"`). This module turns those declarations into a directed graph
+ * over the bundled types and answers which conversions (`.to.x()`) can actually succeed.
+ */
+
+import { formatSchemaId } from "@/bundler/schema-layers.js";
+import type { ColorSpecification, FunctionSpecification } from "@/bundler/types.js";
+import { parseSchemaUri, selectBestVersion, semverToString } from "@/utils/schema-uri.js";
+
+export interface ConversionGraphEntry {
+  uri: string;
+  schema: ColorSpecification | FunctionSpecification;
+}
+
+export interface ConversionEdge {
+  source: string; // Type id, e.g. "rgb-color" or "rgb-color@1"
+  target: string;
+  lossless: boolean;
+}
+
+export interface ConversionGraph {
+  types: string[]; // Bundled type ids in bundle order
+  edges: ConversionEdge[];
+}
+
+export interface ConversionPath {
+  source: string;
+  target: string;
+  reachable: boolean;
+  /** Type ids along the path including both ends, empty when unreachable */
+  path: string[];
+  /** Number of conversions along the path, null when unreachable */
+  length: number | null;
+  /** Whether every conversion along the path is lossless */
+  lossless: boolean;
+}
+
+export interface ConversionReachability {
+  types: string[];
+  /** One entry per ordered pair of distinct types */
+  pairs: ConversionPath[];
+  /** The pairs without any conversion path */
+  unreachable: ConversionPath[];
+}
+
+/**
+ * Split a schema URI into type name and version string
+ */
+function uriIdentity(uri: string): { name: string; version: string } | null {
+  const components = parseSchemaUri(uri);
+  if (!components) {
+    return null;
+  }
+  return { name: components.name, version: semverToString(components.version ?? undefined) };
+}
+
+/**
+ * Build the directed conversion graph of the bundled color types
+ *
+ * Conversion endpoints are matched against the bundled types by name and version, so
+ * partial versions (`/1/`) match the highest bundled 1.x. Conversions to or from types
+ * outside the bundle are ignored.
+ */
+export function buildConversionGraph(entries: ConversionGraphEntry[]): ConversionGraph {
+  const colorEntries = entries.filter(
+    (entry): entry is { uri: string; schema: ColorSpecification } => entry.schema.type === "color",
+  );
+
+  // Bundled versions per type name, e.g. "rgb-color" -> ["0", "1"]
+  const versionsByName = new Map<string, string[]>();
+  const ids = new Map<ConversionGraphEntry, string>();
+  for (const entry of colorEntries) {
+    const identity = uriIdentity(entry.uri);
+    if (!identity) continue;
+    versionsByName.set(identity.name, [
+      ...(versionsByName.get(identity.name) ?? []),
+      identity.version,
+    ]);
+    ids.set(entry, formatSchemaId(identity.name, identity.version));
+  }
+
+  const resolveEndpoint = (endpoint: string, self: string): string | null => {
+    if (endpoint === "$self") {
+      return self;
+    }
+    const identity = uriIdentity(endpoint);
+    const version = identity
+      ? selectBestVersion(versionsByName.get(identity.name) ?? [], identity.version)
+      : null;
+    return identity && version !== null ? formatSchemaId(identity.name, version) : null;
+  };
+
+  const edges: ConversionEdge[] = [];
+  const seen = new Map<string, ConversionEdge>();
+  for (const entry of colorEntries) {
+    const self = ids.get(entry);
+    if (!self) continue;
+
+    for (const conversion of entry.schema.conversions) {
+      const source = resolveEndpoint(conversion.source, self);
+      const target = resolveEndpoint(conversion.target, self);
+      if (source === null || target === null || source === target) continue;
+
+      // The same conversion may be declared by both types; lossless if either says so
+      const key = `${source}\u0000${target}`;
+      const existing = seen.get(key);
+      if (existing) {
+        existing.lossless ||= conversion.lossless;
+        continue;
+      }
+      const edge = { source, target, lossless: conversion.lossless };
+      seen.set(key, edge);
+      edges.push(edge);
+    }
+  }
+
+  return { types: [...new Set(ids.values())], edges };
+}
+
+/**
+ * Find the shortest conversion path between two types
+ * Among equally short paths, the one with the fewest lossy conversions is chosen.
+ */
+export function findConversionPath(
+  graph: ConversionGraph,
+  source: string,
+  target: string,
+): ConversionPath {
+  const unreachable: ConversionPath = {
+    source,
+    target,
+    reachable: false,
+    path: [],
+    length: null,
+    lossless: false,
+  };
+  if (!graph.types.includes(source) || !graph.types.includes(target)) {
+    return unreachable;
+  }
+  if (source === target) {
+    return { source, target, reachable: true, path: [source], length: 0, lossless: true };
+  }
+
+  // Dijkstra over (length, lossy conversions), the graph is small enough for a linear scan
+  const cost = new Map<string, { length: number; lossy: number }>([
+    [source, { length: 0, lossy: 0 }],
+  ]);
+  const previous = new Map<string, string>();
+  const done = new Set<string>();
+
+  const better = (a: { length: number; lossy: number }, b?: { length: number; lossy: number }) =>
+    b === undefined || a.length < b.length || (a.length === b.length && a.lossy < b.lossy);
+
+  while (true) {
+    let current: string | undefined;
+    for (const [node, nodeCost] of cost) {
+      if (!done.has(node) && (current === undefined || better(nodeCost, cost.get(current)))) {
+        current = node;
+      }
+    }
+    if (current === undefined || current === target) break;
+    done.add(current);
+
+    const currentCost = cost.get(current) as { length: number; lossy: number };
+    for (const edge of graph.edges) {
+      if (edge.source !== current || done.has(edge.target)) continue;
+      const next = {
+        length: currentCost.length + 1,
+        lossy: currentCost.lossy + (edge.lossless ? 0 : 1),
+      };
+      if (better(next, cost.get(edge.target))) {
+        cost.set(edge.target, next);
+        previous.set(edge.target, current);
+      }
+    }
+  }
+
+  const targetCost = cost.get(target);
+  if (!targetCost) {
+    return unreachable;
+  }
+
+  const path = [target];
+  while (path[0] !== source) {
+    path.unshift(previous.get(path[0]) as string);
+  }
+
+  return {
+    source,
+    target,
+    reachable: true,
+    path,
+    length: targetCost.length,
+    lossless: targetCost.lossy === 0,
+  };
+}
+
+/**
+ * Analyze which bundled types can be converted into each other
+ *
+ * @example
+ * const { unreachable } = analyzeConversionGraph(result.schemas);
+ * // => [{ source: "hex-color", target: "lab-color", reachable: false, ... }]
+ */
+export function analyzeConversionGraph(entries: ConversionGraphEntry[]): ConversionReachability {
+  const graph = buildConversionGraph(entries);
+  const pairs: ConversionPath[] = [];
+
+  for (const source of graph.types) {
+    for (const target of graph.types) {
+      if (source !== target) {
+        pairs.push(findConversionPath(graph, source, target));
+      }
+    }
+  }
+
+  return {
+    types: graph.types,
+    pairs,
+    unreachable: pairs.filter((pair) => !pair.reachable),
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { findDependencyChains } from "./dependency-graph.js";
+import type { DependencyNode } from "./schema-dependency-resolver.js";
+
+function node(key: string, dependencies: string[], reason?: string): [string, DependencyNode] {
+  const [type, slug] = key.split(":") as ["type" | "function", string];
+  return [
+    key,
+    { slug, type, version: "0", dependencies, schemaDir: "", layer: 0, shadowed: [], reason },
+  ];
+}
+
+describe("Dependency Chains", () => {
+  const tree = new Map<string, DependencyNode>([
+    node("function:mix", ["type:oklch-color", "type:srgb-color"]),
+    node("type:oklch-color", ["type:oklab-color", "type:oklab-color"]),
+    node("type:srgb-color", ["type:srgb-linear-color"]),
+    node("type:oklab-color", ["type:xyz-d65-color", "type:oklch-color"]),
+    node("type:srgb-linear-color", ["type:xyz-d65-color", "type:srgb-color"]),
+    node("type:xyz-d65-color", []),
+  ]);
+
+  it("should return every chain with edge kinds", () => {
+    const { chains, total } = findDependencyChains(tree, ["function:mix"], "type:xyz-d65-color");
+
+    expect(total).toBe(2);
+    expect(chains).toEqual([
+      [
+        { from: "function:mix", to: "type:oklch-color", kind: "requirement" },
+        { from: "type:oklch-color", to: "type:oklab-color", kind: "conversion" },
+        { from: "type:oklab-color", to: "type:xyz-d65-color", kind: "conversion" },
+      ],
+      [
+        { from: "function:mix", to: "type:srgb-color", kind: "requirement" },
+        { from: "type:srgb-color", to: "type:srgb-linear-color", kind: "conversion" },
+        { from: "type:srgb-linear-color", to: "type:xyz-d65-color", kind: "conversion" },
+      ],
+    ]);
+  });
+
+  it("should return longer routes through conversions too, shortest first", () => {
+    const routes = new Map<string, DependencyNode>([
+      node("function:mix", ["type:lab-color", "type:oklch-color"]),
+      node("type:oklch-color", ["type:oklab-color"]),
+      node("type:oklab-color", ["type:xyz-d50-color", "type:oklch-color"]),
+      node("type:lab-color", ["type:xyz-d50-color"]),
+      node("type:xyz-d50-color", ["type:lab-color"]),
+    ]);
+
+    const { chains } = findDependencyChains(routes, ["function:mix"], "type:xyz-d50-color");
+
+    expect(chains.map((chain) => [chain[0].from, ...chain.map((edge) => edge.to)])).toEqual([
+      ["function:mix", "type:lab-color", "type:xyz-d50-color"],
+      ["function:mix", "type:oklch-color", "type:oklab-color", "type:xyz-d50-color"],
+    ]);
+  });
+
+  it("should include chains from every requested root", () => {
+    const { chains } = findDependencyChains(
+      tree,
+      ["function:mix", "type:oklab-color"],
+      "type:xyz-d65-color",
+    );
+
+    expect(chains.map((chain) => chain[0].from)).toEqual([
+      "function:mix",
+      "function:mix",
+      "type:oklab-color",
+    ]);
+  });
+
+  it("should return an empty chain for a requested target", () => {
+    expect(findDependencyChains(tree, ["type:srgb-color"], "type:srgb-color")).toEqual({
+      chains: [[]],
+      total: 1,
+    });
+  });
+
+  it("should mark types added for conversion paths as conversions", () => {
+    const withInput = new Map<string, DependencyNode>([
+      node("function:mix", ["type:oklch-color", "type:hex-color"]),
+      node("type:oklch-color", []),
+      node("type:hex-color", [], "conversion path hex-color → oklch-color for function:mix"),
+    ]);
+
+    expect(findDependencyChains(withInput, ["function:mix"], "type:hex-color").chains).toEqual([
+      [{ from: "function:mix", to: "type:hex-color", kind: "conversion" }],
+    ]);
+  });
+
+  it("should keep the shortest chains within the limit and count the rest", () => {
+    // The longer route through oklch-color is found first
+    const routes = new Map<string, DependencyNode>([
+      node("function:mix", ["type:oklch-color", "type:lab-color"]),
+      node("type:oklch-color", ["type:oklab-color"]),
+      node("type:oklab-color", ["type:xyz-d50-color"]),
+      node("type:lab-color", ["type:xyz-d50-color"]),
+      node("type:xyz-d50-color", []),
+    ]);
+
+    const { chains, total } = findDependencyChains(routes, ["function:mix"], "type:xyz-d50-color", {
+      limit: 1,
+    });
+
+    expect(total).toBe(2);
+    expect(chains.map((chain) => chain.map((edge) => edge.to))).toEqual([
+      ["type:lab-color", "type:xyz-d50-color"],
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Dependency graph of a bundle: schema requirements plus conversion edges between types
+ */
+
+import { buildConversionGraph, type ConversionGraphEntry } from "@/bundler/conversion-graph.js";
+import type { DependencyNode } from "@/bundler/schema-dependency-resolver.js";
+
+export interface DependencyGraphNode {
+  id: string; // Dependency tree key, e.g. "type:rgb-color" or "function:invert"
+  type: "type" | "function";
+  slug: string;
+  version: string;
+  layer: number;
+  reason?: string;
+}
+
+export type DependencyGraphEdge =
+  | { from: string; to: string; kind: "requirement" }
+  | { from: string; to: string; kind: "conversion"; lossless: boolean };
+
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[];
+  edges: DependencyGraphEdge[];
+}
+
+export interface DependencyChainEdge {
+  from: string;
+  to: string;
+  /** Explicit function requirement, or a type pulled in through a conversion */
+  kind: "requirement" | "conversion";
+}
+
+export interface FindDependencyChainsOptions {
+  /** Maximum number of chains to return, the shortest are kept (default: 50) */
+  limit?: number;
+}
+
+export interface DependencyChains {
+  chains: DependencyChainEdge[][];
+  /** Number of chains found, including those beyond the limit */
+  total: number;
+}
+
+/**
+ * Build the dependency graph of a bundle
+ *
+ * Requirement edges point from a function to the schemas it requires (including types added
+ * for input type conversion paths). Conversion edges point from source to target type, in the
+ * direction values are converted; they also explain why types pull in each other, so
+ * type-to-type dependencies of the tree are not repeated as requirement edges.
+ */
+export function buildDependencyGraph(
+  tree: Map<string, DependencyNode>,
+  schemas: ConversionGraphEntry[],
+): DependencyGraph {
+  const nodes: DependencyGraphNode[] = [...tree.entries()].map(([id, node]) => ({
+    id,
+    type: node.type,
+    slug: node.slug,
+    version: node.version,
+    layer: node.layer,
+    ...(node.reason ? { reason: node.reason } : {}),
+  }));
+
+  const edges: DependencyGraphEdge[] = [];
+  for (const [id, node] of tree) {
+    if (node.type !== "function") continue;
+    for (const dependency of node.dependencies) {
+      if (tree.has(dependency)) {
+        edges.push({ from: id, to: dependency, kind: "requirement" });
+      }
+    }
+  }
+
+  // Conversion graph ids are type ids, e.g. "rgb-color@1" -> "type:rgb-color@1"
+  const typeKeys = new Set(nodes.filter((node) => node.type === "type").map((node) => node.id));
+  for (const edge of buildConversionGraph(schemas).edges) {
+    const from = `type:${edge.source}`;
+    const to = `type:${edge.target}`;
+    if (typeKeys.has(from) && typeKeys.has(to)) {
+      edges.push({ from, to, kind: "conversion", lossless: edge.lossless });
+    }
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Classify a dependency tree edge
+ * Function dependencies are explicit requirements, except types added for input type conversion
+ * paths; type dependencies come from conversions.
+ */
+function dependencyEdgeKind(
+  tree: Map<string, DependencyNode>,
+  from: string,
+  to: string,
+): DependencyChainEdge["kind"] {
+  return tree.get(from)?.type === "function" && !tree.get(to)?.reason
+    ? "requirement"
+    : "conversion";
+}
+
+/**
+ * Find the dependency chains from requested schemas to a target schema
+ *
+ * Every simple chain (no schema visited twice) from each root to the target is counted; the
+ * `limit` shortest are returned, ordered by root and shortest first. Schemas that can't reach the
+ * target are skipped.
+ *
+ * @example
+ * findDependencyChains(tree, ["function:mix"], "type:xyz-d50-color")
+ * // => { chains: [[{ from: "function:mix", to: "type:oklch-color", ... }, ...]], total: 2 }
+ */
+export function findDependencyChains(
+  tree: Map<string, DependencyNode>,
+  roots: string[],
+  target: string,
+  options: FindDependencyChainsOptions = {},
+): DependencyChains {
+  const limit = options.limit ?? 50;
+
+  // Schemas the target can be reached from, walking reverse edges
+  const dependents = new Map<string, string[]>();
+  for (const [key, node] of tree) {
+    for (const dependency of node.dependencies) {
+      dependents.set(dependency, [...(dependents.get(dependency) ?? []), key]);
+    }
+  }
+  const reaches = new Set([target]);
+  const queue = [target];
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    for (const dependent of dependents.get(current) ?? []) {
+      if (!reaches.has(dependent)) {
+        reaches.add(dependent);
+        queue.push(dependent);
+      }
+    }
+  }
+
+  // Keep the shortest chains; beyond the limit a shorter chain replaces the longest found last
+  const kept: Array<{ root: number; chain: DependencyChainEdge[] }> = [];
+  let total = 0;
+  const keep = (root: number, chain: DependencyChainEdge[]) => {
+    total++;
+    if (kept.length < limit) {
+      kept.push({ root, chain });
+      return;
+    }
+    let longest = -1;
+    for (let i = kept.length - 1; i >= 0; i--) {
+      if (longest === -1 || kept[i].chain.length > kept[longest].chain.length) longest = i;
+    }
+    if (longest !== -1 && chain.length < kept[longest].chain.length) {
+      kept.splice(longest, 1);
+      kept.push({ root, chain });
+    }
+  };
+
+  // Depth-first over every simple path, tracking the schemas on the current chain
+  const walk = (root: number, key: string, chain: DependencyChainEdge[], visited: Set<string>) => {
+    if (key === target) {
+      keep(root, chain);
+      return;
+    }
+    // A type may list the same dependency for conversions in both directions
+    for (const dependency of new Set(tree.get(key)?.dependencies ?? [])) {
+      if (reaches.has(dependency) && !visited.has(dependency)) {
+        visited.add(dependency);
+        walk(
+          root,
+          dependency,
+          [
+            ...chain,
+            { from: key, to: dependency, kind: dependencyEdgeKind(tree, key, dependency) },
+          ],
+          visited,
+        );
+        visited.delete(dependency);
+      }
+    }
+  };
+
+  const uniqueRoots = [...new Set(roots)];
+  uniqueRoots.forEach((root, index) => {
+    if (reaches.has(root)) {
+      walk(index, root, [], new Set([root]));
+    }
+  });
+
+  // Stable, so chains of a length stay in the order they were found
+  kept.sort((a, b) => a.root - b.root || a.chain.length - b.chain.length);
+  return { chains: kept.map(({ chain }) => chain), total };
+}
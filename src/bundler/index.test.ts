@@ -0,0 +1,188 @@
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { buildCachePath } from "./build-cache.js";
+import { buildAllSchemas, SchemaBuildError } from "./index.js";
+import type { Reporter, ReporterEvent } from "./reporter.js";
+import type { BundledRegistry, ColorSpecification } from "./types.js";
+
+function colorSchema(name: string): ColorSpecification {
+  return { name, type: "color", initializers: [], conversions: [] };
+}
+
+describe("Build All Schemas", () => {
+  const testDir = join(process.cwd(), "test-build-all-schemas");
+  const schemasDir = join(testDir, "schemas");
+  const outputDir = join(testDir, "result");
+  const events: ReporterEvent[] = [];
+  const reporter: Reporter = { report: (event) => events.push(event) };
+
+  beforeAll(async () => {
+    for (const name of ["alpha-color", "beta-color", "gamma-color"]) {
+      await mkdir(join(schemasDir, "types", name), { recursive: true });
+      await writeFile(
+        join(schemasDir, "types", name, "schema.json"),
+        JSON.stringify(colorSchema(name)),
+      );
+    }
+    // Broken: invalid JSON and a missing script file
+    await writeFile(join(schemasDir, "types", "beta-color", "schema.json"), "{");
+    await mkdir(join(schemasDir, "functions", "broken"), { recursive: true });
+    await writeFile(
+      join(schemasDir, "functions", "broken", "schema.json"),
+      JSON.stringify({
+        name: "Broken",
+        type: "function",
+        keyword: "broken",
+        input: { type: "object", properties: {} },
+        script: { type: "/api/v1/core/tokenscript/0/", script: "./missing.tokenscript" },
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should report every failure and not write a registry", async () => {
+    const error = await buildAllSchemas(schemasDir, outputDir, { concurrency: 2, reporter }).catch(
+      (error: unknown) => error,
+    );
+
+    expect(error).toBeInstanceOf(SchemaBuildError);
+    const { failures } = error as SchemaBuildError;
+    expect(failures.map((failure) => `${failure.type}:${failure.id}`)).toEqual([
+      "type:beta-color",
+      "function:broken",
+    ]);
+    expect(failures[0].file).toBe(join(schemasDir, "types", "beta-color", "schema.json"));
+    expect(failures[1].file).toBe(join(schemasDir, "functions", "broken", "missing.tokenscript"));
+    expect((error as Error).message).toContain("2 schema(s) failed to build");
+    await expect(readFile(join(outputDir, "registry.json"), "utf-8")).rejects.toThrow();
+  });
+
+  it("should report progress to the reporter", async () => {
+    events.length = 0;
+    await buildAllSchemas(schemasDir, outputDir, { continueOnError: true, reporter });
+
+    expect(events).toContainEqual({ type: "category-start", kind: "type", total: 3 });
+    expect(events).toContainEqual({ type: "schema-built", kind: "type", schema: "alpha-color" });
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "schema-failed", kind: "function", schema: "broken" }),
+    );
+    expect(events).toContainEqual({
+      type: "category-done",
+      kind: "type",
+      built: 2,
+      cached: 0,
+      failed: 1,
+    });
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "written", path: join(outputDir, "registry.json") }),
+    );
+  });
+
+  it("should write the remaining schemas with continueOnError", async () => {
+    const registry = await buildAllSchemas(schemasDir, outputDir, {
+      continueOnError: true,
+      reporter,
+    });
+
+    expect(registry.types.map((type) => type.slug).sort()).toEqual(["alpha-color", "gamma-color"]);
+    expect(registry.functions).toEqual([]);
+    const written: BundledRegistry = JSON.parse(
+      await readFile(join(outputDir, "registry.json"), "utf-8"),
+    );
+    expect(written.metadata.totalSchemas).toBe(2);
+  });
+});
+
+describe("Incremental Build", () => {
+  const testDir = join(process.cwd(), "test-build-incremental");
+  const schemasDir = join(testDir, "schemas");
+  const outputDir = join(testDir, "result");
+  const cacheDir = join(testDir, "cache");
+  const reporter: Reporter = { report: () => {} };
+
+  async function writeType(name: string, script: string) {
+    const dir = join(schemasDir, "types", name);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "initializer.tokenscript"), script);
+    await writeFile(
+      join(dir, "schema.json"),
+      JSON.stringify({
+        ...colorSchema(name),
+        initializers: [
+          {
+            keyword: name,
+            script: { type: "/api/v1/core/tokenscript/0/", script: "./initializer.tokenscript" },
+          },
+        ],
+      }),
+    );
+  }
+
+  async function build() {
+    const events: ReporterEvent[] = [];
+    const registry = await buildAllSchemas(schemasDir, outputDir, {
+      incremental: true,
+      cacheDir,
+      reporter: { report: (event) => events.push(event) },
+    });
+    return { registry, events };
+  }
+
+  beforeAll(async () => {
+    await writeType("alpha-color", "1");
+    await writeType("beta-color", "2");
+    await mkdir(join(schemasDir, "functions"), { recursive: true });
+    await buildAllSchemas(schemasDir, outputDir, { incremental: true, cacheDir, reporter });
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should not rebuild or rewrite anything when nothing changed", async () => {
+    const before = await readFile(join(outputDir, "registry.json"), "utf-8");
+    const { registry, events } = await build();
+
+    expect(events.filter((event) => event.type === "schema-cached")).toHaveLength(2);
+    expect(events.filter((event) => event.type === "schema-built")).toHaveLength(0);
+    expect(events).not.toContainEqual(
+      expect.objectContaining({ description: "complete registry" }),
+    );
+    expect(await readFile(join(outputDir, "registry.json"), "utf-8")).toBe(before);
+    expect(registry.types).toHaveLength(2);
+  });
+
+  it("should keep the manifest out of the output directory", async () => {
+    expect((await readdir(outputDir)).sort()).toEqual([
+      "functions",
+      "functions.json",
+      "registry.json",
+      "types",
+      "types.json",
+    ]);
+    expect(await readdir(cacheDir)).toEqual([basename(buildCachePath(cacheDir, outputDir))]);
+  });
+
+  it("should rebuild only schemas whose referenced scripts changed", async () => {
+    await writeFile(join(schemasDir, "types", "beta-color", "initializer.tokenscript"), "3");
+    const { registry, events } = await build();
+
+    expect(events).toContainEqual({ type: "schema-built", kind: "type", schema: "beta-color" });
+    expect(events).toContainEqual({ type: "schema-cached", kind: "type", schema: "alpha-color" });
+    expect(events).toContainEqual(expect.objectContaining({ description: "complete registry" }));
+    const beta = registry.types.find((type) => type.slug === "beta-color");
+    expect(beta?.initializers[0].script.script).toBe("3");
+  });
+
+  it("should remove the output of deleted schemas", async () => {
+    await rm(join(schemasDir, "types", "alpha-color"), { recursive: true });
+    const { registry } = await build();
+
+    expect(registry.types.map((type) => type.slug)).toEqual(["beta-color"]);
+    await expect(readFile(join(outputDir, "types", "alpha-color.json"))).rejects.toThrow();
+  });
+});
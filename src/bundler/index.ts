@@ -2,115 +2,331 @@
  * Schema bundler - bundles schemas for distribution
  */
 
-import { mkdir, writeFile } from "node:fs/promises";
+import { mkdir, rm, writeFile } from "node:fs/promises";
 import { join } from "node:path";
+import {
+  type BuildCacheManifest,
+  createBuildCache,
+  DEFAULT_BUILD_CACHE_DIR,
+  hashSchemaInputs,
+  hashValues,
+  readBuildCache,
+  writeBuildCache,
+} from "@/bundler/build-cache.js";
 import { buildSchemaFromDirectory } from "@/bundler/build-schema";
+import { createPrettyReporter, type Reporter } from "@/bundler/reporter.js";
+import {
+  DEFAULT_SCHEMA_VERSION,
+  formatSchemaId,
+  listSchemaDirVersions,
+} from "@/bundler/schema-layers.js";
+import { SchemaValidationError } from "@/bundler/schema-validator.js";
 import type {
   BundledRegistry,
   ColorSpecification,
   FunctionSpecification,
   SchemaSpecification,
 } from "@/bundler/types.js";
-import { getSubdirectories } from "@/bundler/utils";
+import { fileExists, getSubdirectories, mapConcurrent, readJsonFile } from "@/bundler/utils";
 
 /**
  * Default registry URL for build-time bundling
  */
 const DEFAULT_REGISTRY_URL = "https://schema.tokenscript.dev.gcp.tokens.studio";
 
+const DEFAULT_CONCURRENCY = 8;
+
+export interface BuildAllSchemasOptions {
+  cliArgs?: string[];
+  /** Fail schemas with unresolved script references (see BundleOptions.strict) */
+  strict?: boolean;
+  /** Receives build progress and the written files (default: pretty reporter) */
+  reporter?: Reporter;
+  /** Maximum number of schemas built at the same time (default: 8) */
+  concurrency?: number;
+  /**
+   * Write the registry without the schemas that failed to build instead of throwing a
+   * SchemaBuildError
+   */
+  continueOnError?: boolean;
+  /**
+   * Reuse the previous output of schemas whose schema.json and scripts are unchanged
+   * (see the cache manifest in cacheDir)
+   */
+  incremental?: boolean;
+  /**
+   * Directory of the incremental build manifest, outside the published output
+   * (default: node_modules/.cache/tokenscript-schemas)
+   */
+  cacheDir?: string;
+}
+
+export interface SchemaBuildFailure {
+  id: string; // Schema id, e.g. "rgb-color" or "rgb-color@1"
+  slug: string;
+  type: "type" | "function";
+  file: string; // File the error points to, schema.json unless a script or nested file failed
+  error: string;
+}
+
+/**
+ * Thrown by buildAllSchemas when schemas failed to build, listing every failure
+ */
+export class SchemaBuildError extends Error {
+  readonly failures: SchemaBuildFailure[];
+
+  constructor(failures: SchemaBuildFailure[]) {
+    super(formatBuildFailures(failures));
+    this.name = "SchemaBuildError";
+    this.failures = failures;
+  }
+}
+
+/**
+ * Format build failures as a summary with one entry per schema
+ */
+export function formatBuildFailures(failures: SchemaBuildFailure[]): string {
+  const lines = [`${failures.length} schema(s) failed to build:`];
+  for (const failure of failures) {
+    lines.push(`  ✗ ${failure.type}:${failure.id} (${failure.file})`);
+    for (const line of failure.error.split("\n")) {
+      lines.push(`      ${line}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Find the file a build error refers to
+ * Validation errors name their schema.json, failed reads their path
+ */
+function failedFile(error: unknown, schemaDir: string): string {
+  if (error instanceof SchemaValidationError && error.file) {
+    return error.file;
+  }
+  if (error instanceof Error && "path" in error && typeof error.path === "string") {
+    return error.path;
+  }
+  return join(schemaDir, "schema.json");
+}
+
 /**
  * Build a single schema from its directory
  */
-async function buildSchema(schemaDir: string, schemaSlug: string): Promise<SchemaSpecification> {
+async function buildSchema(
+  schemaDir: string,
+  schemaSlug: string,
+  version: string,
+  options: BuildAllSchemasOptions,
+): Promise<SchemaSpecification> {
   // Use shared build logic with baseUrl for build-time
   const bundled = await buildSchemaFromDirectory(schemaDir, {
     baseUrl: DEFAULT_REGISTRY_URL,
+    strict: options.strict,
+    reporter: options.reporter,
   });
 
   // Add slug from folder name
   bundled.slug = schemaSlug;
 
+  // Add version from version folder name
+  if (version !== DEFAULT_SCHEMA_VERSION) {
+    bundled.version = version;
+  }
+
   return bundled;
 }
 
+interface BuildContext {
+  options: BuildAllSchemasOptions;
+  reporter: Reporter;
+  failures: SchemaBuildFailure[];
+  outputDir: string;
+  /** Manifest of the previous build, null when not building incrementally */
+  previous: BuildCacheManifest | null;
+}
+
+interface BuiltSchema {
+  key: string; // `type:id` or `function:id`
+  bundle: SchemaSpecification;
+  hash: string | null; // Input hash, null when it couldn't be computed
+  cached: boolean; // Read back from the previous build output
+}
+
 /**
- * Build all color type schemas from a category directory
+ * Output file of a schema relative to the output directory
  */
-async function buildTypeCategory(categoryDir: string): Promise<ColorSpecification[]> {
-  const bundles: ColorSpecification[] = [];
-  const schemaSlugs = await getSubdirectories(categoryDir);
-
-  for (const slug of schemaSlugs) {
-    const schemaDir = join(categoryDir, slug);
-    console.log(`  Building ${slug}...`);
-
-    try {
-      const bundle = await buildSchema(schemaDir, slug);
-      if (bundle.type === "color") {
-        bundles.push(bundle as ColorSpecification);
-      }
-    } catch (error) {
-      console.error(`  ✗ Failed to build ${slug}:`, error);
-    }
-  }
+function schemaOutputFile(type: "type" | "function", id: string): string {
+  return join(type === "type" ? "types" : "functions", `${id}.json`);
+}
 
-  return bundles;
+/**
+ * Read a schema from the previous build output if its inputs are unchanged
+ */
+async function readCachedSchema(
+  context: BuildContext,
+  key: string,
+  hash: string | null,
+): Promise<SchemaSpecification | null> {
+  const entry = context.previous?.schemas[key];
+  if (!entry || hash === null || entry.hash !== hash) {
+    return null;
+  }
+  try {
+    return await readJsonFile<SchemaSpecification>(join(context.outputDir, entry.output));
+  } catch {
+    return null;
+  }
 }
 
 /**
- * Build all function schemas from a category directory
+ * Build all schemas of a category directory concurrently
+ * Results and failures keep directory order; failures don't abort the category
  */
-async function buildFunctionCategory(categoryDir: string): Promise<FunctionSpecification[]> {
-  const bundles: FunctionSpecification[] = [];
-  const schemaSlugs = await getSubdirectories(categoryDir);
-
-  for (const slug of schemaSlugs) {
-    const schemaDir = join(categoryDir, slug);
-    console.log(`  Building ${slug}...`);
-
-    try {
-      const bundle = await buildSchema(schemaDir, slug);
-      if (bundle.type === "function") {
-        bundles.push(bundle as FunctionSpecification);
-      }
-    } catch (error) {
-      console.error(`  ✗ Failed to build ${slug}:`, error);
+async function buildCategory(
+  categoryDir: string,
+  type: "type" | "function",
+  context: BuildContext,
+): Promise<BuiltSchema[]> {
+  const { options, reporter } = context;
+
+  // Directories without any version become a job without version that fails
+  const jobs: Array<{ slug: string; version?: string; schemaDir: string }> = [];
+
+  for (const slug of await getSubdirectories(categoryDir)) {
+    const versions = await listSchemaDirVersions(join(categoryDir, slug));
+    if (versions.length === 0) {
+      jobs.push({ slug, schemaDir: join(categoryDir, slug) });
+    }
+    for (const { version, schemaDir } of versions) {
+      jobs.push({ slug, version, schemaDir });
     }
   }
 
-  return bundles;
+  reporter.report({ type: "category-start", kind: type, total: jobs.length });
+  const results = await mapConcurrent(
+    jobs,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async ({
+      slug,
+      version,
+      schemaDir,
+    }): Promise<BuiltSchema | { failure: SchemaBuildFailure }> => {
+      const id = version === undefined ? slug : formatSchemaId(slug, version);
+      const key = `${type}:${id}`;
+
+      try {
+        if (version === undefined) {
+          throw new Error("no schema.json or version directories found");
+        }
+
+        const hash = await hashSchemaInputs(schemaDir, {
+          baseUrl: DEFAULT_REGISTRY_URL,
+          strict: Boolean(options.strict),
+          slug,
+          version,
+        });
+        const cached = await readCachedSchema(context, key, hash);
+        if (cached) {
+          reporter.report({ type: "schema-cached", kind: type, schema: id });
+          return { key, bundle: cached, hash, cached: true };
+        }
+
+        reporter.report({ type: "schema-start", kind: type, schema: id });
+        const bundle = await buildSchema(schemaDir, slug, version, options);
+        reporter.report({ type: "schema-built", kind: type, schema: id });
+        return { key, bundle, hash, cached: false };
+      } catch (error) {
+        const failure: SchemaBuildFailure = {
+          id,
+          slug,
+          type,
+          file: version === undefined ? schemaDir : failedFile(error, schemaDir),
+          error: error instanceof Error ? error.message : String(error),
+        };
+        reporter.report({
+          type: "schema-failed",
+          kind: type,
+          schema: id,
+          file: failure.file,
+          error: failure.error,
+        });
+        return { failure };
+      }
+    },
+  );
+
+  const expected = type === "type" ? "color" : "function";
+  const built: BuiltSchema[] = [];
+  let failed = 0;
+  for (const result of results) {
+    if ("failure" in result) {
+      context.failures.push(result.failure);
+      failed++;
+    } else if (result.bundle.type === expected) {
+      built.push(result);
+    }
+  }
+  reporter.report({
+    type: "category-done",
+    kind: type,
+    built: built.length,
+    cached: built.filter((schema) => schema.cached).length,
+    failed,
+  });
+  return built;
 }
 
 /**
  * Build all schemas from the schemas directory
+ *
+ * A cache manifest of the output directory, kept in `cacheDir`, records a content hash of each
+ * schema's inputs. With `incremental`, unchanged schemas are read back from the previous output
+ * instead of being rebuilt, only changed schema files are rewritten and the aggregate files
+ * (registry.json, types.json, functions.json) are only regenerated when any input changed.
  */
 export async function buildAllSchemas(
   schemasDir: string,
   outputDir: string,
-  options?: { cliArgs?: string[] },
+  options: BuildAllSchemasOptions = {},
 ): Promise<BundledRegistry> {
+  const reporter = options.reporter ?? createPrettyReporter();
+  const cacheDir = options.cacheDir ?? DEFAULT_BUILD_CACHE_DIR;
+  const context: BuildContext = {
+    options,
+    reporter,
+    failures: [],
+    outputDir,
+    previous: options.incremental ? await readBuildCache(cacheDir, outputDir) : null,
+  };
+
   // Build types
-  console.log("\nBuilding type schemas...");
   const typesDir = join(schemasDir, "types");
-  const types = await buildTypeCategory(typesDir);
-  console.log(`✓ Built ${types.length} type schemas`);
+  const types = await buildCategory(typesDir, "type", context);
 
   // Build functions
-  console.log("\nBuilding function schemas...");
   const functionsDir = join(schemasDir, "functions");
-  const functions = await buildFunctionCategory(functionsDir);
-  console.log(`✓ Built ${functions.length} function schemas`);
+  const functions = await buildCategory(functionsDir, "function", context);
+
+  // Don't write a partial registry unless asked to
+  const { failures } = context;
+  if (failures.length > 0) {
+    if (!options.continueOnError) {
+      throw new SchemaBuildError(failures);
+    }
+    reporter.report({ type: "warning", message: formatBuildFailures(failures) });
+  }
 
   // Create bundled registry
   const baseCommand = "npx @tokens-studio/tokenscript-schemas bundle";
-  const generatedBy = options?.cliArgs?.length
+  const generatedBy = options.cliArgs?.length
     ? `${baseCommand} ${options.cliArgs.join(" ")}`
     : baseCommand;
 
   const registry: BundledRegistry = {
     version: "0.0.10",
-    types,
-    functions,
+    types: types.map((schema) => schema.bundle as ColorSpecification),
+    functions: functions.map((schema) => schema.bundle as FunctionSpecification),
     metadata: {
       generatedAt: new Date().toISOString(),
       totalSchemas: types.length + functions.length,
@@ -118,41 +334,157 @@ export async function buildAllSchemas(
     },
   };
 
+  const manifest = createBuildCache();
+  for (const schema of [...types, ...functions]) {
+    if (schema.hash !== null) {
+      const [type, id] = schema.key.split(":") as ["type" | "function", string];
+      manifest.schemas[schema.key] = { hash: schema.hash, output: schemaOutputFile(type, id) };
+    }
+  }
+  // Any added, removed or changed schema changes the aggregate hash
+  manifest.aggregate = hashValues([
+    registry.version,
+    generatedBy,
+    ...[...types, ...functions].map((schema) => `${schema.key}:${schema.hash}`),
+  ]);
+
   // Ensure output directory exists
   await mkdir(outputDir, { recursive: true });
 
-  // Write complete registry
   const registryPath = join(outputDir, "registry.json");
-  await writeFile(registryPath, JSON.stringify(registry, null, 2));
-  console.log(`\n✓ Written complete registry to ${registryPath}`);
-
-  // Write individual category bundles
   const typesPath = join(outputDir, "types.json");
-  await writeFile(typesPath, JSON.stringify({ version: registry.version, types }, null, 2));
-  console.log(`✓ Written types bundle to ${typesPath}`);
-
   const functionsPath = join(outputDir, "functions.json");
-  await writeFile(functionsPath, JSON.stringify({ version: registry.version, functions }, null, 2));
-  console.log(`✓ Written functions bundle to ${functionsPath}`);
+  const previousRegistry =
+    context.previous?.aggregate === manifest.aggregate
+      ? await readJsonFile<BundledRegistry>(registryPath).catch((): null => null)
+      : null;
+
+  if (previousRegistry && (await fileExists(typesPath)) && (await fileExists(functionsPath))) {
+    // Unchanged, keep the previous files and their generatedAt
+    registry.metadata = previousRegistry.metadata;
+  } else {
+    // Write complete registry
+    await writeFile(registryPath, JSON.stringify(registry, null, 2));
+    reporter.report({ type: "written", path: registryPath, description: "complete registry" });
 
-  // Write individual schema bundles
+    // Write individual category bundles
+    const { types: typeBundles, functions: functionBundles } = registry;
+    await writeFile(
+      typesPath,
+      JSON.stringify({ version: registry.version, types: typeBundles }, null, 2),
+    );
+    reporter.report({ type: "written", path: typesPath, description: "types bundle" });
+
+    await writeFile(
+      functionsPath,
+      JSON.stringify({ version: registry.version, functions: functionBundles }, null, 2),
+    );
+    reporter.report({ type: "written", path: functionsPath, description: "functions bundle" });
+  }
+
+  // Write individual schema bundles, skipping the ones read back from the previous output
   const typesOutputDir = join(outputDir, "types");
   await mkdir(typesOutputDir, { recursive: true });
-  for (const type of types) {
-    const typePath = join(typesOutputDir, `${type.slug}.json`);
-    await writeFile(typePath, JSON.stringify(type, null, 2));
+  const writtenTypes = types.filter((schema) => !schema.cached);
+  for (const { key, bundle } of writtenTypes) {
+    const [, id] = key.split(":");
+    await writeFile(join(outputDir, schemaOutputFile("type", id)), JSON.stringify(bundle, null, 2));
+  }
+  if (writtenTypes.length > 0) {
+    reporter.report({
+      type: "written",
+      path: typesOutputDir,
+      description: `${writtenTypes.length} individual type schemas`,
+    });
   }
-  console.log(`✓ Written ${types.length} individual type schemas`);
 
   const functionsOutputDir = join(outputDir, "functions");
   await mkdir(functionsOutputDir, { recursive: true });
-  for (const func of functions) {
-    const funcPath = join(functionsOutputDir, `${func.slug}.json`);
-    await writeFile(funcPath, JSON.stringify(func, null, 2));
+  const writtenFunctions = functions.filter((schema) => !schema.cached);
+  for (const { key, bundle } of writtenFunctions) {
+    const [, id] = key.split(":");
+    await writeFile(
+      join(outputDir, schemaOutputFile("function", id)),
+      JSON.stringify(bundle, null, 2),
+    );
+  }
+  if (writtenFunctions.length > 0) {
+    reporter.report({
+      type: "written",
+      path: functionsOutputDir,
+      description: `${writtenFunctions.length} individual function schemas`,
+    });
+  }
+
+  // Remove the output of schemas that no longer exist or failed to build
+  if (context.previous) {
+    const outputs = new Set(Object.values(manifest.schemas).map((entry) => entry.output));
+    for (const entry of Object.values(context.previous.schemas)) {
+      if (!outputs.has(entry.output)) {
+        await rm(join(outputDir, entry.output), { force: true });
+      }
+    }
   }
-  console.log(`✓ Written ${functions.length} individual function schemas`);
+
+  await writeBuildCache(cacheDir, outputDir, manifest);
 
   return registry;
 }
 
+export {
+  type BuildCacheEntry,
+  type BuildCacheManifest,
+  buildCachePath,
+  DEFAULT_BUILD_CACHE_DIR,
+  hashSchemaInputs,
+} from "@/bundler/build-cache.js";
+export {
+  type BundleOptions as BuildSchemaOptions,
+  buildSchemaFromDirectory,
+} from "@/bundler/build-schema.js";
+export {
+  analyzeConversionGraph,
+  buildConversionGraph,
+  type ConversionEdge,
+  type ConversionGraph,
+  type ConversionGraphEntry,
+  type ConversionPath,
+  type ConversionReachability,
+  findConversionPath,
+} from "@/bundler/conversion-graph.js";
+export {
+  buildDependencyGraph,
+  type DependencyChainEdge,
+  type DependencyChains,
+  type DependencyGraph,
+  type DependencyGraphEdge,
+  type DependencyGraphNode,
+  type FindDependencyChainsOptions,
+  findDependencyChains,
+} from "@/bundler/dependency-graph.js";
+export {
+  createJsonReporter,
+  createPrettyReporter,
+  createReporter,
+  createSilentReporter,
+  REPORTERS,
+  type Reporter,
+  type ReporterEvent,
+  type ReporterName,
+  type SchemaKind,
+} from "@/bundler/reporter.js";
+export { SchemaCache, type SchemaCacheStats } from "@/bundler/schema-cache.js";
+export { diffSchemaSets, type SchemaDiff, type ScriptDiff } from "@/bundler/schema-diff.js";
+export {
+  SchemaValidationError,
+  type SchemaValidationIssue,
+  validateSchemaDirectory,
+  validateSchemaSpecification,
+} from "@/bundler/schema-validator.js";
+export {
+  checkScriptReferences,
+  ScriptReferenceError,
+  type ScriptReferenceIssue,
+  type ScriptReferenceReport,
+} from "@/bundler/script-references.js";
 export type * from "@/bundler/types.js";
@@ -0,0 +1,55 @@
+/**
+ * Integrity hashes for bundled schemas
+ *
+ * A schema's hash is the SHA-256 of its canonical JSON (object keys sorted, no whitespace),
+ * so it doesn't depend on key order or formatting of the bundle it was written to.
+ */
+
+import { createHash } from "node:crypto";
+
+/**
+ * Serialize a JSON value with object keys sorted recursively
+ *
+ * @example
+ * canonicalJson({ b: 1, a: [true, { d: null, c: "x" }] })
+ * // => '{"a":[true,{"c":"x","d":null}],"b":1}'
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const members = Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${members.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Copy a JSON value with object keys sorted recursively, e.g. for stable pretty printing
+ */
+export function sortObjectKeys<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(sortObjectKeys) as T;
+  }
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(record)
+        .sort()
+        .map((key) => [key, sortObjectKeys(record[key])]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Compute the integrity hash of a schema, e.g. "sha256-3f2a..."
+ */
+export function computeSchemaIntegrity(schema: unknown): string {
+  return `sha256-${createHash("sha256").update(canonicalJson(schema)).digest("hex")}`;
+}
@@ -2,6 +2,7 @@
  * Bundle presets - predefined sets of schemas for common use cases
  */
 
+import { createPrettyReporter, type Reporter } from "@/bundler/reporter.js";
 import { css } from "./css";
 import { full } from "./full";
 import type { BundlePreset } from "./types";
@@ -18,8 +19,12 @@ export const BUNDLE_PRESETS: Record<string, BundlePreset> = {
 
 /**
  * Expand schemas, replacing "preset:name" with actual schema list
+ * Unknown presets are reported as warnings and skipped
  */
-export function expandPresetSchemas(schemas: string[]): string[] {
+export function expandPresetSchemas(
+  schemas: string[],
+  reporter: Reporter = createPrettyReporter(),
+): string[] {
   const expanded: string[] = [];
 
   for (const schema of schemas) {
@@ -37,7 +42,7 @@ export function expandPresetSchemas(schemas: string[]): string[] {
           expanded.push(func === "*" ? "*" : `function:${func}`);
         }
       } else {
-        console.warn(`⚠ Unknown preset: ${presetName}`);
+        reporter.report({ type: "warning", message: `Unknown preset: ${presetName}` });
       }
     } else {
       // Not a preset, keep as-is
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createJsonReporter, createPrettyReporter, createReporter } from "./reporter.js";
+
+describe("Reporters", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should print progress, warnings and failures with the pretty reporter", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const reporter = createPrettyReporter();
+
+    reporter.report({ type: "schema-start", kind: "type", schema: "rgb-color" });
+    reporter.report({ type: "schema-built", kind: "type", schema: "rgb-color" });
+    reporter.report({ type: "warning", schema: "src/schemas/types/rgb", message: "empty" });
+    reporter.report({
+      type: "schema-failed",
+      kind: "function",
+      schema: "invert",
+      file: "schema.json",
+      error: "Unexpected end of JSON input",
+    });
+    reporter.report({ type: "written", path: "result/registry.json", description: "registry" });
+
+    expect(log.mock.calls).toEqual([
+      ["  Building rgb-color..."],
+      ["✓ Written registry to result/registry.json"],
+    ]);
+    expect(warn).toHaveBeenCalledWith("⚠ src/schemas/types/rgb: empty");
+    expect(error).toHaveBeenCalledWith("  ✗ Failed to build invert");
+  });
+
+  it("should write one JSON object per event with the json reporter", () => {
+    const lines: string[] = [];
+    const reporter = createJsonReporter((line) => lines.push(line));
+
+    reporter.report({ type: "schema-start", kind: "type", schema: "rgb-color" });
+    reporter.report({ type: "warning", message: "Unknown preset: nope" });
+
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      { type: "schema-start", kind: "type", schema: "rgb-color" },
+      { type: "warning", message: "Unknown preset: nope" },
+    ]);
+  });
+
+  it("should create reporters by name", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    createReporter("silent").report({ type: "info", message: "hidden" });
+
+    expect(log).not.toHaveBeenCalled();
+    expect(() => createReporter("xml")).toThrow("Unknown reporter 'xml'");
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Progress reporting for the bundler
+ *
+ * Bundler functions report progress as events instead of writing to the console, so library
+ * users can silence them or consume them as data.
+ */
+
+export type SchemaKind = "type" | "function";
+
+export type ReporterEvent =
+  /** A category of schemas is about to be built */
+  | { type: "category-start"; kind: SchemaKind; total: number }
+  /** A category of schemas finished building, `cached` of the built schemas were unchanged */
+  | { type: "category-done"; kind: SchemaKind; built: number; cached: number; failed: number }
+  | { type: "schema-start"; kind: SchemaKind; schema: string }
+  | { type: "schema-built"; kind: SchemaKind; schema: string }
+  /** The schema's inputs are unchanged, its previous build output is reused */
+  | { type: "schema-cached"; kind: SchemaKind; schema: string }
+  | { type: "schema-failed"; kind: SchemaKind; schema: string; file: string; error: string }
+  /** The transitive dependencies of a requested schema were resolved */
+  | {
+      type: "dependency-resolved";
+      kind: SchemaKind;
+      schema: string;
+      types: string[];
+      functions: string[];
+    }
+  | { type: "warning"; message: string; schema?: string }
+  /** Human-readable command output, e.g. the dependency tree */
+  | { type: "info"; message: string }
+  | { type: "written"; path: string; description: string };
+
+export interface Reporter {
+  report(event: ReporterEvent): void;
+}
+
+export const REPORTERS = ["pretty", "silent", "json"] as const;
+export type ReporterName = (typeof REPORTERS)[number];
+
+/**
+ * Reporter printing progress for humans
+ * schema-built, schema-cached and dependency-resolved are left to machine-readable reporters,
+ * they would repeat what schema-start, category-done and the command output already show.
+ */
+export function createPrettyReporter(): Reporter {
+  return {
+    report(event) {
+      switch (event.type) {
+        case "category-start":
+          console.log(`\nBuilding ${event.kind} schemas...`);
+          break;
+        case "category-done":
+          console.log(
+            `✓ Built ${event.built} ${event.kind} schemas` +
+              (event.cached > 0 ? ` (${event.cached} unchanged)` : ""),
+          );
+          break;
+        case "schema-start":
+          console.log(`  Building ${event.schema}...`);
+          break;
+        case "schema-failed":
+          console.error(`  ✗ Failed to build ${event.schema}`);
+          break;
+        case "warning":
+          console.warn(`⚠ ${event.schema ? `${event.schema}: ` : ""}${event.message}`);
+          break;
+        case "info":
+          console.log(`\n${event.message}`);
+          break;
+        case "written":
+          console.log(`✓ Written ${event.description} to ${event.path}`);
+          break;
+      }
+    },
+  };
+}
+
+/**
+ * Reporter ignoring every event
+ */
+export function createSilentReporter(): Reporter {
+  return { report() {} };
+}
+
+/**
+ * Reporter writing each event as a line of JSON (newline-delimited JSON)
+ *
+ * @example
+ * createJsonReporter().report({ type: "schema-start", kind: "type", schema: "rgb-color" });
+ * // stdout: {"type":"schema-start","kind":"type","schema":"rgb-color"}
+ */
+export function createJsonReporter(
+  write: (line: string) => void = (line) => process.stdout.write(`${line}\n`),
+): Reporter {
+  return {
+    report(event) {
+      write(JSON.stringify(event));
+    },
+  };
+}
+
+/**
+ * Create one of the built-in reporters by name
+ */
+export function createReporter(name: string): Reporter {
+  switch (name as ReporterName) {
+    case "pretty":
+      return createPrettyReporter();
+    case "silent":
+      return createSilentReporter();
+    case "json":
+      return createJsonReporter();
+    default:
+      throw new Error(`Unknown reporter '${name}'. Expected one of: ${REPORTERS.join(", ")}`);
+  }
+}
@@ -0,0 +1,95 @@
+import { mkdir, rm, utimes, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { SchemaCache } from "./schema-cache.js";
+import type { ColorSpecification } from "./types.js";
+
+const TOKENSCRIPT_TYPE = "/api/v1/core/tokenscript/0/";
+
+const schema: ColorSpecification = {
+  name: "CacheTest",
+  type: "color",
+  initializers: [
+    {
+      keyword: "cachetest",
+      script: { type: TOKENSCRIPT_TYPE, script: "./initializer.tokenscript" },
+    },
+  ],
+  conversions: [],
+};
+
+describe("Schema Cache", () => {
+  const testDir = join(process.cwd(), "test-schema-cache");
+
+  beforeAll(async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, "schema.json"), JSON.stringify(schema));
+    await writeFile(join(testDir, "initializer.tokenscript"), "variable x: Number = 1;\nx");
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should build a directory once while its files are unchanged", async () => {
+    const cache = new SchemaCache();
+
+    const first = (await cache.load(testDir)) as ColorSpecification;
+    const second = (await cache.load(testDir)) as ColorSpecification;
+
+    expect(second).toEqual(first);
+    expect(first.initializers[0].script.script).toBe("variable x: Number = 1;\nx");
+    expect(cache.stats).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it("should cache builds per base URL", async () => {
+    const cache = new SchemaCache();
+
+    await cache.load(testDir);
+    const remote = await cache.load(testDir, { baseUrl: "https://example.com" });
+
+    expect(remote.type).toBe("color");
+    expect(cache.stats).toEqual({ hits: 0, misses: 2 });
+  });
+
+  it("should rebuild when a script file changes", async () => {
+    const cache = new SchemaCache();
+    const scriptPath = join(testDir, "initializer.tokenscript");
+
+    await cache.load(testDir);
+    await writeFile(scriptPath, "variable x: Number = 2;\nx");
+    // Same size, so make sure the modification time differs too
+    const later = new Date(Date.now() + 10_000);
+    await utimes(scriptPath, later, later);
+
+    const rebuilt = (await cache.load(testDir)) as ColorSpecification;
+
+    expect(rebuilt.initializers[0].script.script).toBe("variable x: Number = 2;\nx");
+    expect(cache.stats).toEqual({ hits: 0, misses: 2 });
+  });
+
+  it("should return copies that callers can modify", async () => {
+    const cache = new SchemaCache();
+
+    const first = await cache.load(testDir);
+    first.slug = "changed";
+    const second = await cache.load(testDir);
+
+    expect(second.slug).toBeUndefined();
+  });
+
+  it("should report strict mode warnings again when reusing a build", async () => {
+    const cache = new SchemaCache();
+    await writeFile(join(testDir, "stale.tokenscript"), "1");
+    const warnings: string[] = [];
+    const options = { strict: true, onWarning: (message: string) => warnings.push(message) };
+
+    await cache.load(testDir, options);
+    await cache.load(testDir, options);
+    await rm(join(testDir, "stale.tokenscript"));
+
+    const warning = `⚠ ${testDir}: stale.tokenscript: Script file is not referenced by schema.json`;
+    expect(warnings).toEqual([warning, warning]);
+    expect(cache.stats).toEqual({ hits: 1, misses: 1 });
+  });
+});
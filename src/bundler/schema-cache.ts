@@ -0,0 +1,97 @@
+/**
+ * Cache of built schemas shared by the resolver, dependency tree and bundler
+ *
+ * Each schema directory is built once per set of build options. Entries are keyed by
+ * directory and revalidated against the modification time and size of the files in it,
+ * so edits to schema.json or .tokenscript files are picked up without rebuilding the rest.
+ * Strict mode warnings are kept with the entry and reported on every load.
+ */
+
+import { readdir, stat } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import {
+  type BundleOptions,
+  buildSchemaFromDirectory,
+  reportStrictWarning,
+} from "@/bundler/build-schema.js";
+import type { SchemaSpecification } from "@/bundler/types.js";
+
+interface CacheEntry {
+  signature: string;
+  schema: Promise<SchemaSpecification>;
+  warnings: string[]; // Strict mode warnings of the build
+}
+
+export interface SchemaCacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Fingerprint the files of a schema directory by name, modification time and size
+ */
+async function directorySignature(schemaDir: string): Promise<string> {
+  const entries = await readdir(schemaDir, { withFileTypes: true });
+  const parts: string[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isFile()) continue;
+    const stats = await stat(join(schemaDir, entry.name));
+    parts.push(`${entry.name}:${stats.mtimeMs}:${stats.size}`);
+  }
+
+  return parts.sort().join("|");
+}
+
+export class SchemaCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly counters: SchemaCacheStats = { hits: 0, misses: 0 };
+
+  /**
+   * Build a schema directory, reusing the previous build while its files are unchanged
+   * Returns a copy, so callers may modify the schema
+   */
+  async load(schemaDir: string, options: BundleOptions = {}): Promise<SchemaSpecification> {
+    const key = `${resolve(schemaDir)}\u0000${options.baseUrl ?? ""}\u0000${options.strict ? "strict" : ""}`;
+    const signature = await directorySignature(schemaDir);
+
+    let entry = this.entries.get(key);
+    if (entry?.signature === signature) {
+      this.counters.hits++;
+    } else {
+      this.counters.misses++;
+      const warnings: string[] = [];
+      const schema = buildSchemaFromDirectory(schemaDir, {
+        ...options,
+        onWarning: undefined,
+        reporter: { report: (event) => event.type === "warning" && warnings.push(event.message) },
+      });
+      entry = { signature, schema, warnings };
+      this.entries.set(key, entry);
+      // Don't cache failures, the next load retries
+      entry.schema.catch(() => {
+        if (this.entries.get(key) === entry) {
+          this.entries.delete(key);
+        }
+      });
+    }
+
+    const schema = await entry.schema;
+    for (const message of entry.warnings) {
+      reportStrictWarning(schemaDir, message, options);
+    }
+    // Schemas are plain JSON; a JSON round-trip copies them on Node 16 (no structuredClone)
+    return JSON.parse(JSON.stringify(schema)) as SchemaSpecification;
+  }
+
+  /**
+   * Number of loads served from the cache and loads that built the schema
+   */
+  get stats(): SchemaCacheStats {
+    return { ...this.counters };
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
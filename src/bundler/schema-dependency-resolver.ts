@@ -2,15 +2,31 @@
  * Utilities for resolving schema dependencies automatically
  */
 
-import { join } from "node:path";
 import { log } from "@tests/helpers/logger.js";
 import type {
   ColorSpecification,
   FunctionSpecification,
   SchemaSpecification,
 } from "@/bundler/types.js";
-import { extractSchemaName, parseSchemaUri } from "@/utils/schema-uri";
-import { buildSchemaFromDirectory } from "./build-schema.js";
+import { extractSchemaName, parseSchemaUri, semverToString } from "@/utils/schema-uri";
+import {
+  buildConversionGraph,
+  type ConversionGraph,
+  type ConversionGraphEntry,
+  findConversionPath,
+} from "./conversion-graph.js";
+import type { Reporter } from "./reporter.js";
+import { SchemaCache } from "./schema-cache.js";
+import {
+  DEFAULT_SCHEMA_VERSION,
+  formatSchemaId,
+  listSchemaSlugs,
+  listSchemaVersions,
+  locateSchema,
+  locateSchemaVersion,
+  normalizeSchemaDirs,
+  parseSchemaId,
+} from "./schema-layers.js";
 
 export interface SchemaReference {
   slug: string;
@@ -112,135 +128,396 @@ export function resolveSchemaReference(uriOrName: string): SchemaReference | nul
 export interface ResolvedDependencies {
   types: string[];
   functions: string[];
+  cycles: DependencyCycle[];
+  /** Conversion paths from input types to function requirements (only with `inputTypes`) */
+  conversionPaths?: ConversionPathDependency[];
+}
+
+export interface DependencyCycle {
+  /**
+   * "requirement" when every edge is an explicit function requirement (a real problem),
+   * "conversion" when a color type conversion is involved (harmless, e.g. oklab ↔ oklch)
+   */
+  kind: "requirement" | "conversion";
+  /** Dependency keys along the cycle, starting and ending with the same schema */
+  path: string[];
+}
+
+export interface ConversionPathDependency {
+  function: string; // Function id whose requirement the path leads to
+  inputType: string; // Type id the path starts from
+  requiredType: string; // Type id required by the function
+  path: string[]; // Type ids from the input type to the required type
+  added: string[]; // Types on the path that were not otherwise part of the result
 }
 
 export interface DependencyNode {
   slug: string;
   type: "type" | "function";
-  dependencies: string[];
+  version: string; // Resolved schema version, e.g. "0" or "1.2.0"
+  dependencies: string[]; // Keys of direct dependencies, e.g. "type:rgb-color" or "type:rgb-color@1"
+  schemaDir: string; // Directory the schema was loaded from
+  layer: number; // Index of the schema layer it came from (0 = highest precedence)
+  shadowed: string[]; // Same slug and version schema directories in lower layers hidden by this one
+  reason?: string; // Why the schema was added when it isn't a requirement, e.g. a conversion path
 }
 
 export interface CollectRequiredSchemasOptions extends ExtractRequirementsOptions {
   baseUrl?: string;
-  schemasDir?: string;
+  /**
+   * Schema directories searched in precedence order (first wins)
+   * A string may contain a comma-separated list
+   */
+  schemasDir?: string | string[];
+  /**
+   * Types that will be passed to the bundled functions (e.g. "hex-color")
+   * When set, the types on the shortest conversion path from each input type to each type
+   * required by a function are included as well
+   */
+  inputTypes?: string[];
+  /**
+   * Cache of built schemas, shared to build each schema directory only once
+   * A new cache is used per call when not set
+   */
+  cache?: SchemaCache;
+  /** Receives warnings and resolved dependencies, warnings are logged when not set */
+  reporter?: Reporter;
 }
 
 /**
- * Recursively collect all required schemas for a given schema
- * Returns a flat list of all dependencies (including transitive ones)
- *
- * @param slugOrUri - Schema slug (e.g., "rgb-color") or full URI
- * @param type - Schema type ("type" or "function"), optional if URI is provided
- * @param options - Options for dependency collection
- * @returns Object with separated type and function dependencies
- *
- * @example
- * // Using slug
- * await collectRequiredSchemas("invert", "function")
- * // => { types: ["rgb-color", "hex-color"], functions: [] }
- *
- * // Using URI
- * await collectRequiredSchemas("/api/v1/core/rgb-color/0/")
- * // => { types: ["hex-color"], functions: [] }
+ * Report a warning, falling back to the logger without a reporter
  */
-export async function collectRequiredSchemas(
+function warn(reporter: Reporter | undefined, message: string, error?: unknown): void {
+  if (!reporter) {
+    if (error === undefined) {
+      log.warn(message);
+    } else {
+      log.warn(`${message}:`, error);
+    }
+    return;
+  }
+
+  const details = error instanceof Error ? error.message : error;
+  reporter.report({
+    type: "warning",
+    message: error === undefined ? message : `${message}: ${details}`,
+  });
+}
+
+/**
+ * Split a schema reference into slug and requested version
+ * Plain slugs may carry a version (`rgb-color@1`), URIs carry it in the path.
+ * An undefined version means "latest available".
+ */
+function referenceVersion(ref: SchemaReference): { slug: string; version?: string } {
+  if (ref.uri === "") {
+    return parseSchemaId(ref.slug);
+  }
+
+  const version = semverToString(parseSchemaUri(ref.uri)?.version ?? undefined);
+  return { slug: ref.slug, version: version === "latest" ? undefined : version };
+}
+
+/**
+ * Resolve a reference to its schema identity (`slug` or `slug@version`)
+ * Falls back to the requested identity when the schema can't be found
+ */
+export async function resolveReferenceId(
+  ref: SchemaReference,
+  type: "type" | "function",
+  schemaDirs: string[],
+): Promise<string> {
+  const { slug, version } = referenceVersion(ref);
+  const location = await locateSchema(slug, type, schemaDirs, version);
+  return formatSchemaId(slug, location?.version ?? version);
+}
+
+/**
+ * Traverse the requirements of a schema, returning its resolved identity
+ * together with all transitive dependencies
+ */
+async function traverseRequiredSchemas(
   slugOrUri: string,
-  type?: "type" | "function",
-  options: CollectRequiredSchemasOptions = {},
-): Promise<ResolvedDependencies> {
-  const { baseUrl, schemasDir, ...extractOptions } = options;
+  type: "type" | "function" | undefined,
+  options: CollectRequiredSchemasOptions,
+): Promise<ResolvedDependencies & { id: string | null }> {
+  const { baseUrl, schemasDir, cache = new SchemaCache(), reporter, ...extractOptions } = options;
+  const schemaDirs = normalizeSchemaDirs(schemasDir);
   const visited = new Set<string>();
   const typeSchemas = new Set<string>();
   const functionSchemas = new Set<string>();
+  const cycles: DependencyCycle[] = [];
 
-  async function traverse(currentSlugOrUri: string, currentType?: "type" | "function") {
+  // Schemas on the current traversal path, with the kind of their outgoing edges
+  const stack: Array<{ key: string; kind: DependencyCycle["kind"] }> = [];
+
+  async function traverse(
+    currentSlugOrUri: string,
+    currentType: "type" | "function" | undefined,
+    isRoot: boolean,
+  ): Promise<string | null> {
     // Resolve to a proper schema reference
     const ref = resolveSchemaReference(currentSlugOrUri);
     if (!ref) {
-      log.warn(`Could not resolve schema reference: ${currentSlugOrUri}`);
-      return;
+      warn(reporter, `Could not resolve schema reference: ${currentSlugOrUri}`);
+      return null;
     }
 
     // Use provided type if available, otherwise use resolved type
     const effectiveType = currentType || ref.type;
-    const slug = ref.slug;
+    const { slug, version } = referenceVersion(ref);
+
+    // Find the best matching version in the highest-precedence layer that provides it
+    const location = await locateSchema(slug, effectiveType, schemaDirs, version);
+    const id = formatSchemaId(slug, location?.version ?? version);
+
+    // Add to appropriate set
+    if (!isRoot) {
+      if (effectiveType === "function") {
+        functionSchemas.add(id);
+      } else {
+        typeSchemas.add(id);
+      }
+    }
 
     // Create a unique key for visited tracking
-    const key = `${effectiveType}:${slug}`;
+    const key = `${effectiveType}:${id}`;
+    const onStack = stack.findIndex((entry) => entry.key === key);
+    if (onStack !== -1) {
+      const entries = stack.slice(onStack);
+      cycles.push({
+        kind: entries.every((entry) => entry.kind === "requirement") ? "requirement" : "conversion",
+        path: [...entries.map((entry) => entry.key), key],
+      });
+    }
     if (visited.has(key)) {
-      return;
+      return id;
     }
     visited.add(key);
 
     // Try to load the schema
     let spec: SchemaSpecification;
     try {
-      // Dynamically determine schema directory
-      const categoryDir = effectiveType === "type" ? "types" : "functions";
-      const resolvedSchemasDir =
-        schemasDir || process.env.SCHEMAS_DIR || join(process.cwd(), "src/schemas");
-      const schemaDir = join(resolvedSchemasDir, categoryDir, slug);
+      if (!location) {
+        throw new Error(`Schema not found in: ${schemaDirs.join(", ")}`);
+      }
 
-      spec = await buildSchemaFromDirectory(schemaDir, baseUrl ? { baseUrl } : undefined);
+      spec = await cache.load(location.schemaDir, { baseUrl });
     } catch (error) {
-      log.warn(`Failed to load schema ${slug} (${effectiveType}):`, error);
-      return;
+      warn(reporter, `Failed to load schema ${id} (${effectiveType})`, error);
+      return id;
     }
 
     // Extract requirements from this schema
     const requirements = extractRequirements(spec, extractOptions);
 
     // Recursively traverse requirements
+    // Function requirements are explicit, color type dependencies come from conversions
+    stack.push({ key, kind: spec.type === "function" ? "requirement" : "conversion" });
     for (const reqUri of requirements) {
       const reqRef = resolveSchemaReference(reqUri);
       if (reqRef) {
-        // Add to appropriate set
-        if (reqRef.type === "function") {
-          functionSchemas.add(reqRef.slug);
-        } else {
-          typeSchemas.add(reqRef.slug);
-        }
-
-        // Recursively collect dependencies
-        await traverse(reqUri, reqRef.type);
+        await traverse(reqUri, reqRef.type, false);
       }
     }
+    stack.pop();
+
+    return id;
   }
 
   // Start traversal
-  await traverse(slugOrUri, type);
+  const id = await traverse(slugOrUri, type, true);
 
   return {
+    id,
     types: Array.from(typeSchemas),
     functions: Array.from(functionSchemas),
+    cycles,
   };
 }
 
+/**
+ * Add cycles that aren't known yet, comparing them independent of their starting point
+ */
+function addCycles(target: DependencyCycle[], cycles: DependencyCycle[]): void {
+  const canonical = (cycle: DependencyCycle) => {
+    const keys = cycle.path.slice(0, -1);
+    const start = keys.indexOf([...keys].sort()[0]);
+    return [...keys.slice(start), ...keys.slice(0, start)].join(" ");
+  };
+
+  const known = new Set(target.map(canonical));
+  for (const cycle of cycles) {
+    if (!known.has(canonical(cycle))) {
+      known.add(canonical(cycle));
+      target.push(cycle);
+    }
+  }
+}
+
+/**
+ * Recursively collect all required schemas for a given schema
+ * Returns a flat list of all dependencies (including transitive ones)
+ *
+ * Dependencies are identified by slug, or `slug@version` for versions other than "0".
+ * Versions are taken from requirement URIs (`/api/v1/core/oklch-color/1/`) and may be
+ * partial, selecting the highest matching version (`/1/` resolves to the highest 1.x).
+ * `latest` or a plain slug selects the highest available version.
+ *
+ * @param slugOrUri - Schema slug (e.g., "rgb-color" or "rgb-color@1") or full URI
+ * @param type - Schema type ("type" or "function"), optional if URI is provided
+ * @param options - Options for dependency collection
+ * @returns Object with separated type and function dependencies
+ *
+ * @example
+ * // Using slug
+ * await collectRequiredSchemas("invert", "function")
+ * // => { types: ["rgb-color", "hex-color"], functions: [] }
+ *
+ * // Using URI
+ * await collectRequiredSchemas("/api/v1/core/rgb-color/0/")
+ * // => { types: ["hex-color"], functions: [] }
+ */
+export async function collectRequiredSchemas(
+  slugOrUri: string,
+  type?: "type" | "function",
+  options: CollectRequiredSchemasOptions = {},
+): Promise<ResolvedDependencies> {
+  const { types, functions, cycles } = await traverseRequiredSchemas(slugOrUri, type, options);
+  return { types, functions, cycles };
+}
+
+/**
+ * Load the conversion graph over every available type
+ */
+async function loadConversionGraph(
+  schemaDirs: string[],
+  cache: SchemaCache,
+  baseUrl?: string,
+  reporter?: Reporter,
+): Promise<ConversionGraph> {
+  const entries: ConversionGraphEntry[] = [];
+
+  for (const slug of await listSchemaSlugs("type", schemaDirs)) {
+    const versions = new Set<string>();
+    for (const layerDir of schemaDirs) {
+      for (const { version } of await listSchemaVersions(slug, "type", layerDir)) {
+        versions.add(version);
+      }
+    }
+
+    for (const version of versions) {
+      const location = await locateSchemaVersion(slug, "type", schemaDirs, version);
+      if (!location) continue;
+      try {
+        const schema = await cache.load(location.schemaDir, { baseUrl });
+        entries.push({ uri: `/api/v1/core/${slug}/${version}/`, schema });
+      } catch (error) {
+        warn(reporter, `Failed to load schema ${formatSchemaId(slug, version)} (type)`, error);
+      }
+    }
+  }
+
+  return buildConversionGraph(entries);
+}
+
+/**
+ * Find the shortest conversion paths from each input type to each type required by the functions
+ */
+async function collectConversionPaths(
+  functions: string[],
+  inputTypes: string[],
+  schemaDirs: string[],
+  cache: SchemaCache,
+  baseUrl?: string,
+  reporter?: Reporter,
+): Promise<Array<Omit<ConversionPathDependency, "added">>> {
+  const graph = await loadConversionGraph(schemaDirs, cache, baseUrl, reporter);
+  const paths: Array<Omit<ConversionPathDependency, "added">> = [];
+
+  const inputIds: string[] = [];
+  for (const inputType of inputTypes) {
+    const ref = resolveSchemaReference(inputType);
+    if (!ref) {
+      warn(reporter, `Could not resolve input type: ${inputType}`);
+      continue;
+    }
+    inputIds.push(await resolveReferenceId(ref, "type", schemaDirs));
+  }
+
+  for (const functionId of functions) {
+    const { slug, version } = parseSchemaId(functionId, DEFAULT_SCHEMA_VERSION);
+    const location = await locateSchemaVersion(slug, "function", schemaDirs, version);
+    if (!location) continue;
+
+    const spec = await cache.load(location.schemaDir, { baseUrl });
+    for (const requirement of extractRequirements(spec)) {
+      const ref = resolveSchemaReference(requirement);
+      if (ref?.type !== "type") continue;
+      const requiredType = await resolveReferenceId(ref, "type", schemaDirs);
+
+      for (const inputType of inputIds) {
+        if (inputType === requiredType) continue;
+        const path = findConversionPath(graph, inputType, requiredType);
+        if (!path.reachable) {
+          warn(
+            reporter,
+            `No conversion path from ${inputType} to ${requiredType} (required by function:${functionId})`,
+          );
+          continue;
+        }
+        paths.push({ function: functionId, inputType, requiredType, path: path.path });
+      }
+    }
+  }
+
+  return paths;
+}
+
 /**
  * Collect all schemas needed for a list of schemas (including their dependencies)
  *
  * @example
  * await collectRequiredSchemasForList([
  *   { slug: "invert", type: "function" },
- *   { slug: "rgb-color", type: "type" }
+ *   { slug: "rgb-color", type: "type", version: "1" }
  * ])
- * // => { types: ["rgb-color", "hex-color"], functions: ["invert"] }
+ * // => { types: ["rgb-color@1", "hex-color"], functions: ["invert"] }
+ *
+ * // Also include the types needed to convert hex colors into mix's requirements
+ * await collectRequiredSchemasForList([{ slug: "mix", type: "function" }], {
+ *   inputTypes: ["hex-color"],
+ * })
+ * // => { types: ["oklch-color", "srgb-color", "hex-color", ...], conversionPaths: [...] }
  */
 export async function collectRequiredSchemasForList(
-  schemas: Array<{ slug: string; type: "type" | "function" }>,
+  schemas: Array<{ slug: string; type: "type" | "function"; version?: string }>,
   options: CollectRequiredSchemasOptions = {},
 ): Promise<ResolvedDependencies> {
+  // Schemas are usually shared between the requested schemas, build each once
+  const cache = options.cache ?? new SchemaCache();
+  options = { ...options, cache };
   const allTypes = new Set<string>();
   const allFunctions = new Set<string>();
+  const cycles: DependencyCycle[] = [];
 
   for (const schema of schemas) {
-    const deps = await collectRequiredSchemas(schema.slug, schema.type, options);
+    const request = schema.version ? `${schema.slug}@${schema.version}` : schema.slug;
+    const deps = await traverseRequiredSchemas(request, schema.type, options);
 
     // Add the schema itself
+    const id = deps.id ?? request;
+    options.reporter?.report({
+      type: "dependency-resolved",
+      kind: schema.type,
+      schema: id,
+      types: deps.types,
+      functions: deps.functions,
+    });
     if (schema.type === "function") {
-      allFunctions.add(schema.slug);
+      allFunctions.add(id);
     } else {
-      allTypes.add(schema.slug);
+      allTypes.add(id);
     }
 
     // Add dependencies
@@ -250,48 +527,149 @@ export async function collectRequiredSchemasForList(
     for (const f of deps.functions) {
       allFunctions.add(f);
     }
+    addCycles(cycles, deps.cycles);
+  }
+
+  if (!options.inputTypes?.length) {
+    return {
+      types: Array.from(allTypes),
+      functions: Array.from(allFunctions),
+      cycles,
+    };
+  }
+
+  // Add the types needed to convert input types into the types functions require
+  const conversionPaths: ConversionPathDependency[] = [];
+  const schemaDirs = normalizeSchemaDirs(options.schemasDir);
+  const paths = await collectConversionPaths(
+    Array.from(allFunctions),
+    options.inputTypes,
+    schemaDirs,
+    cache,
+    options.baseUrl,
+    options.reporter,
+  );
+
+  for (const path of paths) {
+    const added = path.path.filter((id) => !allTypes.has(id));
+    for (const id of added) {
+      allTypes.add(id);
+      const { slug, version } = parseSchemaId(id, DEFAULT_SCHEMA_VERSION);
+      const deps = await traverseRequiredSchemas(`${slug}@${version}`, "type", options);
+      for (const t of deps.types) {
+        allTypes.add(t);
+      }
+      addCycles(cycles, deps.cycles);
+    }
+    conversionPaths.push({ ...path, added });
   }
 
   return {
     types: Array.from(allTypes),
     functions: Array.from(allFunctions),
+    cycles,
+    conversionPaths,
   };
 }
 
+/**
+ * Find the dependency tree key of a requested schema
+ * Matches on type prefix, slug and version; unversioned requests match any version
+ *
+ * @example
+ * findDependencyTreeKey(tree, "rgb-color") // => "type:rgb-color@1"
+ * findDependencyTreeKey(tree, "function:invert") // => "function:invert"
+ */
+export function findDependencyTreeKey(
+  tree: Map<string, DependencyNode>,
+  request: string,
+): string | null {
+  const [type, name] = request.includes(":") ? request.split(":") : [undefined, request];
+  const { slug, version } = parseSchemaId(name);
+
+  for (const [key, node] of tree) {
+    if (
+      node.slug === slug &&
+      (type === undefined || node.type === type) &&
+      (version === undefined || version === "latest" || node.version === version)
+    ) {
+      return key;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Record in a dependency tree why types were added for conversion paths
+ * Added types become dependencies of the function whose requirement they lead to
+ */
+export function annotateConversionPaths(
+  tree: Map<string, DependencyNode>,
+  conversionPaths: ConversionPathDependency[],
+): void {
+  for (const { function: functionId, path, added } of conversionPaths) {
+    const functionNode = tree.get(`function:${functionId}`);
+    for (const id of added) {
+      const key = `type:${id}`;
+      const node = tree.get(key);
+      if (!node) continue;
+      node.reason ??= `conversion path ${path.join(" → ")} for function:${functionId}`;
+      if (functionNode && !functionNode.dependencies.includes(key)) {
+        functionNode.dependencies.push(key);
+      }
+    }
+  }
+}
+
 /**
  * Collect dependency tree for schemas (non-recursive, shows direct dependencies only)
+ * Each node records the schema layer it was loaded from and the schemas it shadows
+ * Versions are resolved versions (as returned by collectRequiredSchemasForList) and must match
+ * exactly; schemas without a version use the latest available
  */
 export async function collectDependencyTree(
-  schemas: Array<{ slug: string; type: "type" | "function" }>,
+  schemas: Array<{ slug: string; type: "type" | "function"; version?: string }>,
   options: CollectRequiredSchemasOptions = {},
 ): Promise<Map<string, DependencyNode>> {
-  const { baseUrl, schemasDir, ...extractOptions } = options;
+  const { baseUrl, schemasDir, cache = new SchemaCache(), reporter, ...extractOptions } = options;
+  const schemaDirs = normalizeSchemaDirs(schemasDir);
   const tree = new Map<string, DependencyNode>();
 
   for (const schema of schemas) {
-    const categoryDir = schema.type === "type" ? "types" : "functions";
-    const resolvedSchemasDir =
-      schemasDir || process.env.SCHEMAS_DIR || join(process.cwd(), "src/schemas");
-    const schemaDir = join(resolvedSchemasDir, categoryDir, schema.slug);
-
     try {
-      const spec = await buildSchemaFromDirectory(schemaDir, baseUrl ? { baseUrl } : undefined);
+      const location =
+        schema.version === undefined
+          ? await locateSchema(schema.slug, schema.type, schemaDirs)
+          : await locateSchemaVersion(schema.slug, schema.type, schemaDirs, schema.version);
+      if (!location) {
+        throw new Error(`Schema not found in: ${schemaDirs.join(", ")}`);
+      }
+
+      const spec = await cache.load(location.schemaDir, { baseUrl });
       const requirements = extractRequirements(spec, extractOptions);
 
-      // Extract just the slugs from URIs
-      const dependencySlugs = requirements.map((uri) => {
+      // Resolve requirement URIs to `type:id` keys
+      const dependencyKeys: string[] = [];
+      for (const uri of requirements) {
         const ref = resolveSchemaReference(uri);
-        return ref ? `${ref.type}:${ref.slug}` : uri;
-      });
+        dependencyKeys.push(
+          ref ? `${ref.type}:${await resolveReferenceId(ref, ref.type, schemaDirs)}` : uri,
+        );
+      }
 
-      const key = `${schema.type}:${schema.slug}`;
+      const key = `${schema.type}:${formatSchemaId(schema.slug, location.version)}`;
       tree.set(key, {
         slug: schema.slug,
         type: schema.type,
-        dependencies: dependencySlugs,
+        version: location.version,
+        dependencies: dependencyKeys,
+        schemaDir: location.schemaDir,
+        layer: location.layer,
+        shadowed: location.shadowed,
       });
     } catch (error) {
-      log.warn(`Failed to load schema ${schema.slug} (${schema.type}):`, error);
+      warn(reporter, `Failed to load schema ${schema.slug} (${schema.type})`, error);
     }
   }
 
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { diffSchemaSets } from "./schema-diff.js";
+import type { ColorSpecification, FunctionSpecification, SchemaSpecification } from "./types.js";
+
+const BASE = "https://schema.tokenscript.dev.gcp.tokens.studio/api/v1";
+
+const rgb: ColorSpecification = {
+  name: "RGB",
+  type: "color",
+  schema: { type: "object", properties: { r: { type: "number" } } },
+  initializers: [
+    { keyword: "rgb", script: { type: "/api/v1/core/tokenscript/0/", script: "return rgb;" } },
+  ],
+  conversions: [
+    {
+      source: "/api/v1/core/srgb-color/0/",
+      target: "$self",
+      lossless: true,
+      script: { type: "/api/v1/core/tokenscript/0/", script: "a = 1;\nb = 2;\nreturn a;" },
+    },
+  ],
+};
+
+const invert: FunctionSpecification = {
+  name: "Invert",
+  type: "function",
+  keyword: "invert",
+  input: { type: "object", properties: { color: { type: "color" } } },
+  requirements: ["/api/v1/core/srgb-color/0/"],
+  script: { type: "/api/v1/core/tokenscript/0/", script: "return 1 - color;" },
+};
+
+function set(entries: Record<string, SchemaSpecification>): Map<string, SchemaSpecification> {
+  return new Map(Object.entries(entries));
+}
+
+describe("Schema Diff", () => {
+  it("should report added and removed schemas and skip unchanged ones", () => {
+    const diffs = diffSchemaSets(
+      set({ "type:rgb-color": rgb, "function:invert": invert }),
+      set({ "type:rgb-color": rgb, "type:hsl-color": { ...rgb, name: "HSL" } }),
+    );
+
+    expect(diffs).toEqual([
+      { key: "function:invert", status: "removed", changes: [], scripts: [] },
+      { key: "type:hsl-color", status: "added", changes: [], scripts: [] },
+    ]);
+  });
+
+  it("should ignore the registry origin of URIs", () => {
+    const absolute: ColorSpecification = {
+      ...rgb,
+      conversions: rgb.conversions.map((conversion) => ({
+        ...conversion,
+        source: `${BASE}/core/srgb-color/0/`,
+      })),
+    };
+
+    expect(
+      diffSchemaSets(set({ "type:rgb-color": rgb }), set({ "type:rgb-color": absolute })),
+    ).toEqual([]);
+  });
+
+  it("should report changed initializers, conversions and scripts of types", () => {
+    const changed: ColorSpecification = {
+      ...rgb,
+      initializers: [
+        {
+          keyword: "rgba",
+          script: { type: "/api/v1/core/tokenscript/0/", script: "return rgba;" },
+        },
+      ],
+      conversions: [
+        {
+          ...rgb.conversions[0],
+          lossless: false,
+          script: { type: "/api/v1/core/tokenscript/0/", script: "a = 1;\nb = 3;\nreturn a;" },
+        },
+        { ...rgb.conversions[0], source: "$self", target: "/api/v1/core/hsl-color/0/" },
+      ],
+    };
+
+    const [diff] = diffSchemaSets(
+      set({ "type:rgb-color": rgb }),
+      set({ "type:rgb-color": changed }),
+    );
+
+    expect(diff.status).toBe("changed");
+    expect(diff.changes).toEqual([
+      "+ initializer rgba",
+      "- initializer rgb",
+      "~ conversion srgb-color → $self: lossless → lossy",
+      "+ conversion $self → hsl-color",
+    ]);
+    expect(diff.scripts).toHaveLength(1);
+    expect(diff.scripts[0].label).toBe("conversion srgb-color → $self");
+    expect(diff.scripts[0].diff).toContain("--- a/type:rgb-color conversion srgb-color → $self");
+    expect(diff.scripts[0].diff).toContain("-b = 2;\n+b = 3;");
+  });
+
+  it("should report changed keywords, inputs, requirements and scripts of functions", () => {
+    const changed: FunctionSpecification = {
+      ...invert,
+      keyword: "inverse",
+      input: {
+        type: "object",
+        properties: { color: { type: "string" }, amount: { type: "number" } },
+      },
+      requirements: ["/api/v1/core/oklch-color/0/"],
+      script: { ...invert.script, script: "return 2 - color;" },
+    };
+
+    const [diff] = diffSchemaSets(
+      set({ "function:invert": invert }),
+      set({ "function:invert": changed }),
+    );
+
+    expect(diff.changes).toEqual([
+      "~ keyword: invert → inverse",
+      '~ input color: {"type":"color"} → {"type":"string"}',
+      "+ input amount",
+      "+ requirement oklch-color",
+      "- requirement srgb-color",
+    ]);
+    expect(diff.scripts.map((script) => script.label)).toEqual(["script"]);
+  });
+});
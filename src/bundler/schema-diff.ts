@@ -0,0 +1,248 @@
+/**
+ * Schema diff - compare two sets of built schema specifications
+ *
+ * Schemas are matched by `type:id` / `function:id`. URIs are compared without their registry
+ * origin, so schemas built with and without a base URL compare equal.
+ */
+
+import { canonicalJson } from "@/bundler/integrity.js";
+import { formatSchemaId } from "@/bundler/schema-layers.js";
+import type {
+  ColorSpecification,
+  FunctionSpecification,
+  SchemaSpecification,
+} from "@/bundler/types.js";
+import { parseSchemaUri, semverToString } from "@/utils/schema-uri.js";
+import { createUnifiedDiff } from "@/utils/unified-diff.js";
+
+export interface ScriptDiff {
+  label: string; // e.g. "initializer rgb" or "conversion srgb-color → $self"
+  diff: string; // Unified diff of the script
+}
+
+export interface SchemaDiff {
+  key: string; // `type:id` or `function:id`
+  status: "added" | "removed" | "changed";
+  /** Changes besides scripts, one line each, e.g. "+ initializer rgba" */
+  changes: string[];
+  scripts: ScriptDiff[];
+}
+
+/**
+ * Display name of a schema URI, e.g. "srgb-color" or "srgb-color@1"
+ * Anything that isn't a schema URI ($self, keywords) is returned as is
+ */
+function uriLabel(uri: string): string {
+  const components = parseSchemaUri(uri);
+  if (!components) {
+    return uri;
+  }
+  return formatSchemaId(components.name, semverToString(components.version ?? undefined));
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "(none)" : canonicalJson(value);
+}
+
+/**
+ * Compare two values by their canonical JSON
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  return formatValue(a) === formatValue(b);
+}
+
+/**
+ * Compare two keyed lists, reporting added and removed entries and diffing the common ones
+ */
+function diffEntries<T>(
+  before: Map<string, T>,
+  after: Map<string, T>,
+  label: string,
+  compare: (name: string, before: T, after: T) => void,
+  changes: string[],
+): void {
+  for (const [name, entry] of after) {
+    const previous = before.get(name);
+    if (previous === undefined) {
+      changes.push(`+ ${label} ${name}`);
+    } else {
+      compare(name, previous, entry);
+    }
+  }
+  for (const name of before.keys()) {
+    if (!after.has(name)) {
+      changes.push(`- ${label} ${name}`);
+    }
+  }
+}
+
+function diffScript(
+  label: string,
+  before: string,
+  after: string,
+  key: string,
+  scripts: ScriptDiff[],
+): void {
+  const diff = createUnifiedDiff(`${before}\n`, `${after}\n`, {
+    oldLabel: `a/${key} ${label}`,
+    newLabel: `b/${key} ${label}`,
+  });
+  if (diff) {
+    scripts.push({ label, diff });
+  }
+}
+
+function diffColorSchemas(
+  key: string,
+  before: ColorSpecification,
+  after: ColorSpecification,
+  result: SchemaDiff,
+): void {
+  const { changes, scripts } = result;
+
+  if (!sameValue(before.schema, after.schema)) {
+    const beforeProperties = Object.keys(before.schema?.properties ?? {});
+    const afterProperties = Object.keys(after.schema?.properties ?? {});
+    changes.push(`~ properties: ${beforeProperties.join(", ")} → ${afterProperties.join(", ")}`);
+  }
+
+  const initializers = (spec: ColorSpecification) =>
+    new Map(spec.initializers.map((initializer) => [initializer.keyword, initializer]));
+  diffEntries(
+    initializers(before),
+    initializers(after),
+    "initializer",
+    (keyword, previous, initializer) => {
+      if (!sameValue(previous.schema, initializer.schema)) {
+        changes.push(`~ initializer ${keyword}: input schema changed`);
+      }
+      diffScript(
+        `initializer ${keyword}`,
+        previous.script.script,
+        initializer.script.script,
+        key,
+        scripts,
+      );
+    },
+    changes,
+  );
+
+  const conversions = (spec: ColorSpecification) =>
+    new Map(
+      spec.conversions.map((conversion) => [
+        `${uriLabel(conversion.source)} → ${uriLabel(conversion.target)}`,
+        conversion,
+      ]),
+    );
+  diffEntries(
+    conversions(before),
+    conversions(after),
+    "conversion",
+    (name, previous, conversion) => {
+      if (previous.lossless !== conversion.lossless) {
+        changes.push(
+          `~ conversion ${name}: ${conversion.lossless ? "lossy → lossless" : "lossless → lossy"}`,
+        );
+      }
+      diffScript(
+        `conversion ${name}`,
+        previous.script.script,
+        conversion.script.script,
+        key,
+        scripts,
+      );
+    },
+    changes,
+  );
+}
+
+function diffFunctionSchemas(
+  key: string,
+  before: FunctionSpecification,
+  after: FunctionSpecification,
+  result: SchemaDiff,
+): void {
+  const { changes, scripts } = result;
+
+  if (before.keyword !== after.keyword) {
+    changes.push(`~ keyword: ${before.keyword} → ${after.keyword}`);
+  }
+
+  const inputs = (spec: FunctionSpecification) =>
+    new Map(Object.entries(spec.input?.properties ?? {}));
+  diffEntries(
+    inputs(before),
+    inputs(after),
+    "input",
+    (name, previous, input) => {
+      if (!sameValue(previous, input)) {
+        changes.push(`~ input ${name}: ${formatValue(previous)} → ${formatValue(input)}`);
+      }
+    },
+    changes,
+  );
+
+  const requirements = (spec: FunctionSpecification) =>
+    new Map((spec.requirements ?? []).map((uri) => [uriLabel(uri), uri]));
+  diffEntries(requirements(before), requirements(after), "requirement", () => {}, changes);
+
+  diffScript("script", before.script.script, after.script.script, key, scripts);
+}
+
+/**
+ * Compare two schemas stored under the same key
+ */
+function diffSchema(
+  key: string,
+  before: SchemaSpecification,
+  after: SchemaSpecification,
+): SchemaDiff {
+  const result: SchemaDiff = { key, status: "changed", changes: [], scripts: [] };
+
+  if (before.type !== after.type) {
+    result.changes.push(`~ type: ${before.type} → ${after.type}`);
+    return result;
+  }
+  if (before.name !== after.name) {
+    result.changes.push(`~ name: ${before.name} → ${after.name}`);
+  }
+  if (before.description !== after.description) {
+    result.changes.push("~ description changed");
+  }
+
+  if (before.type === "color") {
+    diffColorSchemas(key, before, after as ColorSpecification, result);
+  } else {
+    diffFunctionSchemas(key, before, after as FunctionSpecification, result);
+  }
+  return result;
+}
+
+/**
+ * Compare two sets of schemas keyed by `type:id` / `function:id`
+ * Returns added, removed and changed schemas sorted by key; unchanged schemas are left out.
+ */
+export function diffSchemaSets(
+  before: Map<string, SchemaSpecification>,
+  after: Map<string, SchemaSpecification>,
+): SchemaDiff[] {
+  const keys = [...new Set([...before.keys(), ...after.keys()])].sort();
+  const diffs: SchemaDiff[] = [];
+
+  for (const key of keys) {
+    const previous = before.get(key);
+    const schema = after.get(key);
+    if (!previous) {
+      diffs.push({ key, status: "added", changes: [], scripts: [] });
+    } else if (!schema) {
+      diffs.push({ key, status: "removed", changes: [], scripts: [] });
+    } else {
+      const diff = diffSchema(key, previous, schema);
+      if (diff.changes.length > 0 || diff.scripts.length > 0) {
+        diffs.push(diff);
+      }
+    }
+  }
+
+  return diffs;
+}
@@ -0,0 +1,256 @@
+/**
+ * Layered, versioned schema sources
+ *
+ * Several schema directories are searched in precedence order, so custom
+ * schemas can override (shadow) schemas with the same slug and version in lower layers.
+ *
+ * A schema directory is either unversioned (`types/rgb-color/schema.json`, version taken
+ * from the optional `version` field, default "0") or holds side-by-side versions
+ * (`types/rgb-color/0/schema.json`, `types/rgb-color/1/schema.json`).
+ */
+
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { fileExists, getSubdirectories, isDirectory } from "@/bundler/utils.js";
+import { parseSemverFromString, selectBestVersion } from "@/utils/schema-uri.js";
+import { isObject, isString } from "@/utils/type.js";
+
+export type SchemaKind = "type" | "function";
+
+/**
+ * Version of schemas that don't declare one, matching the historical `/0/` URIs
+ */
+export const DEFAULT_SCHEMA_VERSION = "0";
+
+export interface SchemaLocation {
+  slug: string;
+  type: SchemaKind;
+  /** Resolved version, e.g. "0", "1" or "1.2.0" */
+  version: string;
+  /** Directory containing the schema.json */
+  schemaDir: string;
+  /** Index of the layer the schema was found in (0 = highest precedence) */
+  layer: number;
+  /** Schemas directory of that layer */
+  layerDir: string;
+  /** Schema directories with the same slug and version in lower layers, hidden by this one */
+  shadowed: string[];
+}
+
+interface VersionCandidate {
+  version: string;
+  schemaDir: string;
+  layer: number;
+  layerDir: string;
+}
+
+/**
+ * Normalize schema directory option(s) into an ordered list of layers
+ * Strings may contain a comma-separated list of directories
+ */
+export function normalizeSchemaDirs(schemasDir?: string | string[]): string[] {
+  const dirs = (Array.isArray(schemasDir) ? schemasDir : (schemasDir?.split(",") ?? []))
+    .map((dir) => dir.trim())
+    .filter((dir) => dir !== "");
+
+  if (dirs.length > 0) {
+    return dirs;
+  }
+
+  return [process.env.SCHEMAS_DIR || join(process.cwd(), "src/schemas")];
+}
+
+/**
+ * Format a schema identity: plain slug for the default version, `slug@version` otherwise
+ */
+export function formatSchemaId(slug: string, version: string = DEFAULT_SCHEMA_VERSION): string {
+  return version === DEFAULT_SCHEMA_VERSION ? slug : `${slug}@${version}`;
+}
+
+/**
+ * Split a schema identity or request (`rgb-color`, `rgb-color@1`) into slug and version
+ * Without a version suffix, `defaultVersion` is returned: leave it undefined for requests
+ * (meaning "latest"), pass DEFAULT_SCHEMA_VERSION for identities built by formatSchemaId
+ */
+export function parseSchemaId(id: string): { slug: string; version?: string };
+export function parseSchemaId(
+  id: string,
+  defaultVersion: string,
+): { slug: string; version: string };
+export function parseSchemaId(
+  id: string,
+  defaultVersion?: string,
+): { slug: string; version?: string } {
+  const at = id.lastIndexOf("@");
+  if (at <= 0) {
+    return { slug: id, version: defaultVersion };
+  }
+  return { slug: id.slice(0, at), version: id.slice(at + 1) };
+}
+
+function categoryDir(type: SchemaKind): string {
+  return type === "type" ? "types" : "functions";
+}
+
+/**
+ * Read the optional `version` field of an unversioned schema directory
+ */
+async function readDeclaredVersion(schemaDir: string): Promise<string> {
+  try {
+    const data: unknown = JSON.parse(await readFile(join(schemaDir, "schema.json"), "utf-8"));
+    if (isObject(data) && isString(data.version)) {
+      return data.version;
+    }
+  } catch {
+    // Invalid schemas are reported when they are built
+  }
+  return DEFAULT_SCHEMA_VERSION;
+}
+
+/**
+ * List all versions held by a single schema slug directory
+ */
+export async function listSchemaDirVersions(
+  slugDir: string,
+): Promise<Array<{ version: string; schemaDir: string }>> {
+  if (!(await isDirectory(slugDir))) {
+    return [];
+  }
+
+  if (await fileExists(join(slugDir, "schema.json"))) {
+    return [{ version: await readDeclaredVersion(slugDir), schemaDir: slugDir }];
+  }
+
+  const versions: Array<{ version: string; schemaDir: string }> = [];
+  for (const entry of await getSubdirectories(slugDir)) {
+    const versionDir = join(slugDir, entry);
+    if (parseSemverFromString(entry) && (await fileExists(join(versionDir, "schema.json")))) {
+      versions.push({ version: entry, schemaDir: versionDir });
+    }
+  }
+
+  return versions;
+}
+
+/**
+ * List all versions of a schema available in a single layer
+ */
+export async function listSchemaVersions(
+  slug: string,
+  type: SchemaKind,
+  layerDir: string,
+): Promise<Array<{ version: string; schemaDir: string }>> {
+  return listSchemaDirVersions(join(layerDir, categoryDir(type), slug));
+}
+
+async function collectVersionCandidates(
+  slug: string,
+  type: SchemaKind,
+  schemaDirs: string[],
+): Promise<VersionCandidate[]> {
+  const candidates: VersionCandidate[] = [];
+  for (const [layer, layerDir] of schemaDirs.entries()) {
+    for (const available of await listSchemaVersions(slug, type, layerDir)) {
+      candidates.push({ ...available, layer, layerDir });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Among layers providing a version, the first one wins and the others are shadowed
+ */
+function toSchemaLocation(
+  slug: string,
+  type: SchemaKind,
+  candidates: VersionCandidate[],
+  version: string | null,
+): SchemaLocation | null {
+  const matching = candidates.filter((candidate) => candidate.version === version);
+  if (matching.length === 0) {
+    return null;
+  }
+
+  const [winner, ...shadowed] = matching;
+  return {
+    slug,
+    type,
+    version: winner.version,
+    schemaDir: winner.schemaDir,
+    layer: winner.layer,
+    layerDir: winner.layerDir,
+    shadowed: shadowed.map((candidate) => candidate.schemaDir),
+  };
+}
+
+/**
+ * Find a schema across layers
+ *
+ * The version may be exact ("1.2.0"), partial ("1" selects the highest 1.x) or a range
+ * ("^1.2", "~1.2", ">=1", "latest"); without a version the highest available version is
+ * selected. Among layers providing the selected version, the first one wins and the others
+ * are recorded as shadowed.
+ */
+export async function locateSchema(
+  slug: string,
+  type: SchemaKind,
+  schemaDirs: string[],
+  version?: string,
+): Promise<SchemaLocation | null> {
+  const candidates = await collectVersionCandidates(slug, type, schemaDirs);
+  const selectedVersion = selectBestVersion(
+    candidates.map((candidate) => candidate.version),
+    version,
+  );
+  return toSchemaLocation(slug, type, candidates, selectedVersion);
+}
+
+/**
+ * Find an already resolved schema version across layers
+ * Unlike locateSchema, the version is matched literally and never treated as a range
+ */
+export async function locateSchemaVersion(
+  slug: string,
+  type: SchemaKind,
+  schemaDirs: string[],
+  version: string,
+): Promise<SchemaLocation | null> {
+  const candidates = await collectVersionCandidates(slug, type, schemaDirs);
+  return toSchemaLocation(slug, type, candidates, version);
+}
+
+/**
+ * List the slugs of all schemas of a kind across layers, in order of first appearance
+ */
+export async function listSchemaSlugs(type: SchemaKind, schemaDirs: string[]): Promise<string[]> {
+  const slugs = new Set<string>();
+  for (const layerDir of schemaDirs) {
+    const dir = join(layerDir, categoryDir(type));
+    if (await isDirectory(dir)) {
+      for (const slug of (await getSubdirectories(dir)).sort()) {
+        slugs.add(slug);
+      }
+    }
+  }
+  return [...slugs];
+}
+
+/**
+ * Detect whether a slug is a type or function, searching layers in precedence order
+ * Within a layer, types take precedence over functions
+ */
+export async function detectSchemaType(
+  slug: string,
+  schemaDirs: string[],
+): Promise<SchemaKind | null> {
+  for (const layerDir of schemaDirs) {
+    if (await isDirectory(join(layerDir, "types", slug))) {
+      return "type";
+    }
+    if (await isDirectory(join(layerDir, "functions", slug))) {
+      return "function";
+    }
+  }
+
+  return null;
+}
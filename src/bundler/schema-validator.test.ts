@@ -0,0 +1,136 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { buildSchemaFromDirectory } from "./build-schema.js";
+import {
+  SchemaValidationError,
+  validateSchemaDirectory,
+  validateSchemaSpecification,
+} from "./schema-validator.js";
+import { getSubdirectories } from "./utils.js";
+
+const SCHEMAS_DIR = join(process.cwd(), "src/schemas");
+
+const validColor = {
+  name: "Test",
+  type: "color",
+  schema: {
+    type: "object",
+    properties: { v: { type: "number" } },
+    required: ["v"],
+    order: ["v"],
+  },
+  initializers: [
+    {
+      keyword: "test",
+      script: { type: "/api/v1/core/tokenscript/0/", script: "./init.tokenscript" },
+    },
+  ],
+  conversions: [
+    {
+      source: "/api/v1/core/rgb-color/0/",
+      target: "$self",
+      lossless: true,
+      script: { type: "/api/v1/core/tokenscript/0/", script: "./from-rgb.tokenscript" },
+    },
+  ],
+};
+
+const validFunction = {
+  name: "Test",
+  type: "function",
+  keyword: "test_fn",
+  input: { type: "object", properties: { color: { type: "color" } } },
+  script: { type: "/api/v1/core/tokenscript/0/", script: "./test.tokenscript" },
+  requirements: ["/api/v1/core/rgb-color/0/"],
+};
+
+describe("Schema Validator", () => {
+  it("should accept all built-in schemas", async () => {
+    for (const category of ["types", "functions"]) {
+      for (const slug of await getSubdirectories(join(SCHEMAS_DIR, category))) {
+        const issues = await validateSchemaDirectory(join(SCHEMAS_DIR, category, slug));
+        expect(issues, `${category}/${slug}`).toEqual([]);
+      }
+    }
+  });
+
+  it("should accept valid color and function specifications", () => {
+    expect(validateSchemaSpecification(validColor)).toEqual([]);
+    expect(validateSchemaSpecification(validFunction)).toEqual([]);
+  });
+
+  it("should report misspelled and missing properties together", () => {
+    const { initializers, ...rest } = validColor;
+    const issues = validateSchemaSpecification({ ...rest, intializers: initializers });
+
+    expect(issues).toEqual([
+      { path: "/intializers", message: 'Unknown property "intializers"' },
+      { path: "/initializers", message: "Required property is missing" },
+    ]);
+  });
+
+  it("should point at nested problems with JSON pointers", () => {
+    const issues = validateSchemaSpecification({
+      ...validColor,
+      schema: { ...validColor.schema, order: ["v", "w"] },
+      initializers: [{ script: { type: "/api/v1/core/tokenscript/0/" } }],
+      conversions: [{ source: "rgb", target: "oklch", lossless: "yes", script: {} }],
+    });
+
+    const paths = issues.map((issue) => issue.path);
+    expect(paths).toContain("/schema/order/1");
+    expect(paths).toContain("/initializers/0/keyword");
+    expect(paths).toContain("/initializers/0/script/script");
+    expect(paths).toContain("/conversions/0/source");
+    expect(paths).toContain("/conversions/0/target");
+    expect(paths).toContain("/conversions/0");
+    expect(paths).toContain("/conversions/0/lossless");
+    expect(paths).toContain("/conversions/0/script/type");
+  });
+
+  it("should validate function keyword, script and requirements", () => {
+    const { keyword: _keyword, ...rest } = validFunction;
+    const issues = validateSchemaSpecification({ ...rest, requirements: ["rgb-color"] });
+
+    expect(issues).toEqual([
+      { path: "/keyword", message: "Required property is missing" },
+      { path: "/requirements/0", message: "Expected a schema URI" },
+    ]);
+  });
+
+  it("should reject unknown schema types", () => {
+    expect(validateSchemaSpecification({ name: "X", type: "colour" })).toEqual([
+      { path: "/type", message: 'Expected "color" or "function"' },
+    ]);
+    expect(validateSchemaSpecification([])).toEqual([
+      { path: "", message: "Schema must be an object" },
+    ]);
+  });
+
+  describe("buildSchemaFromDirectory", () => {
+    const testDir = join(process.cwd(), "test-validator-schemas");
+
+    beforeAll(async () => {
+      await mkdir(testDir, { recursive: true });
+      const { initializers, ...rest } = validColor;
+      await writeFile(
+        join(testDir, "schema.json"),
+        JSON.stringify({ ...rest, intializers: initializers }),
+      );
+    });
+
+    afterAll(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it("should throw a SchemaValidationError listing every issue", async () => {
+      const error = await buildSchemaFromDirectory(testDir).catch((e) => e);
+
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect(error.issues).toHaveLength(2);
+      expect(error.message).toContain("/intializers");
+      expect(error.message).toContain("/initializers");
+    });
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * Structural validation for schema.json specifications
+ * Reports every problem at once, each with a JSON pointer to the offending value
+ */
+
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { SchemaSpecification } from "@/bundler/types.js";
+import { parseSchemaUri, parseSemverFromString } from "@/utils/schema-uri.js";
+import { isArray, isBoolean, isObject, isString } from "@/utils/type.js";
+
+export interface SchemaValidationIssue {
+  /** JSON pointer (RFC 6901) to the offending value, "" for the document root */
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a schema.json does not match the expected specification shape
+ */
+export class SchemaValidationError extends Error {
+  readonly issues: SchemaValidationIssue[];
+  readonly file?: string;
+
+  constructor(issues: SchemaValidationIssue[], file?: string) {
+    super(formatValidationIssues(issues, file));
+    this.name = "SchemaValidationError";
+    this.issues = issues;
+    this.file = file;
+  }
+}
+
+const COLOR_KEYS = [
+  "name",
+  "type",
+  "description",
+  "schema",
+  "initializers",
+  "conversions",
+  "version",
+  "slug",
+];
+
+const FUNCTION_KEYS = [
+  "name",
+  "type",
+  "description",
+  "keyword",
+  "input",
+  "script",
+  "requirements",
+  "returns",
+  "examples",
+  "schema",
+  "version",
+  "slug",
+];
+
+const INITIALIZER_KEYS = ["title", "keyword", "description", "schema", "script"];
+const CONVERSION_KEYS = ["source", "target", "description", "lossless", "script"];
+const SCRIPT_BLOCK_KEYS = ["type", "script"];
+const SPEC_SCHEMA_KEYS = ["type", "properties", "required", "order", "additionalProperties"];
+const SPEC_PROPERTY_TYPES = ["number", "string", "color"];
+
+/**
+ * Escape a single JSON pointer reference token
+ */
+function escapePointerToken(token: string | number): string {
+  return String(token).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function pointer(base: string, ...tokens: Array<string | number>): string {
+  return tokens.reduce<string>((acc, token) => `${acc}/${escapePointerToken(token)}`, base);
+}
+
+/**
+ * Collects issues while walking a specification
+ */
+class IssueCollector {
+  readonly issues: SchemaValidationIssue[] = [];
+
+  add(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  unknownKeys(value: Record<string, unknown>, allowed: string[], path: string): void {
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) {
+        this.add(pointer(path, key), `Unknown property "${key}"`);
+      }
+    }
+  }
+
+  requiredString(value: Record<string, unknown>, key: string, path: string): void {
+    if (!(key in value)) {
+      this.add(pointer(path, key), "Required property is missing");
+    } else if (!isString(value[key]) || value[key] === "") {
+      this.add(pointer(path, key), "Expected a non-empty string");
+    }
+  }
+
+  optionalString(value: Record<string, unknown>, key: string, path: string): void {
+    if (key in value && !isString(value[key])) {
+      this.add(pointer(path, key), "Expected a string");
+    }
+  }
+
+  optionalVersion(value: Record<string, unknown>, key: string, path: string): void {
+    if (key in value && (!isString(value[key]) || !parseSemverFromString(value[key]))) {
+      this.add(pointer(path, key), 'Expected a version string like "1" or "1.2.0"');
+    }
+  }
+
+  requiredArray(value: Record<string, unknown>, key: string, path: string): unknown[] {
+    if (!(key in value)) {
+      this.add(pointer(path, key), "Required property is missing");
+      return [];
+    }
+    if (!isArray(value[key])) {
+      this.add(pointer(path, key), "Expected an array");
+      return [];
+    }
+    return value[key] as unknown[];
+  }
+}
+
+function validateScriptBlock(collector: IssueCollector, value: unknown, path: string): void {
+  if (value === undefined) {
+    collector.add(path, "Required property is missing");
+    return;
+  }
+  if (!isObject(value)) {
+    collector.add(path, "Expected a script block object");
+    return;
+  }
+  collector.unknownKeys(value, SCRIPT_BLOCK_KEYS, path);
+  collector.requiredString(value, "type", path);
+  collector.requiredString(value, "script", path);
+}
+
+function validateSpecSchema(collector: IssueCollector, value: unknown, path: string): void {
+  if (!isObject(value)) {
+    collector.add(path, "Expected an object");
+    return;
+  }
+  collector.unknownKeys(value, SPEC_SCHEMA_KEYS, path);
+
+  if (value.type !== "object") {
+    collector.add(pointer(path, "type"), 'Expected "object"');
+  }
+
+  const propertyNames: string[] = [];
+  if (!isObject(value.properties)) {
+    collector.add(pointer(path, "properties"), "Expected an object");
+  } else {
+    for (const [name, property] of Object.entries(value.properties)) {
+      propertyNames.push(name);
+      const propertyPath = pointer(path, "properties", name);
+      if (!isObject(property)) {
+        collector.add(propertyPath, "Expected an object");
+      } else if (!isString(property.type) || !SPEC_PROPERTY_TYPES.includes(property.type)) {
+        collector.add(
+          pointer(propertyPath, "type"),
+          `Expected one of ${SPEC_PROPERTY_TYPES.map((t) => `"${t}"`).join(", ")}`,
+        );
+      }
+    }
+  }
+
+  for (const key of ["required", "order"]) {
+    if (!(key in value)) continue;
+    const list = value[key];
+    if (!isArray(list)) {
+      collector.add(pointer(path, key), "Expected an array of property names");
+      continue;
+    }
+    list.forEach((name, index) => {
+      if (!isString(name)) {
+        collector.add(pointer(path, key, index), "Expected a string");
+      } else if (isObject(value.properties) && !propertyNames.includes(name)) {
+        collector.add(pointer(path, key, index), `"${name}" is not declared in properties`);
+      }
+    });
+  }
+
+  if ("additionalProperties" in value && !isBoolean(value.additionalProperties)) {
+    collector.add(pointer(path, "additionalProperties"), "Expected a boolean");
+  }
+}
+
+function validateColorSpecification(
+  collector: IssueCollector,
+  spec: Record<string, unknown>,
+): void {
+  collector.unknownKeys(spec, COLOR_KEYS, "");
+  collector.requiredString(spec, "name", "");
+  collector.optionalString(spec, "description", "");
+  collector.optionalVersion(spec, "version", "");
+  collector.optionalString(spec, "slug", "");
+
+  if ("schema" in spec) {
+    validateSpecSchema(collector, spec.schema, "/schema");
+  }
+
+  collector.requiredArray(spec, "initializers", "").forEach((initializer, index) => {
+    const path = pointer("/initializers", index);
+    if (!isObject(initializer)) {
+      collector.add(path, "Expected an initializer object");
+      return;
+    }
+    collector.unknownKeys(initializer, INITIALIZER_KEYS, path);
+    collector.requiredString(initializer, "keyword", path);
+    collector.optionalString(initializer, "title", path);
+    collector.optionalString(initializer, "description", path);
+    validateScriptBlock(collector, initializer.script, pointer(path, "script"));
+  });
+
+  collector.requiredArray(spec, "conversions", "").forEach((conversion, index) => {
+    const path = pointer("/conversions", index);
+    if (!isObject(conversion)) {
+      collector.add(path, "Expected a conversion object");
+      return;
+    }
+    collector.unknownKeys(conversion, CONVERSION_KEYS, path);
+    for (const key of ["source", "target"]) {
+      collector.requiredString(conversion, key, path);
+      const endpoint = conversion[key];
+      if (isString(endpoint) && endpoint !== "$self" && !parseSchemaUri(endpoint)) {
+        collector.add(pointer(path, key), `Expected "$self" or a schema URI, got "${endpoint}"`);
+      }
+    }
+    if (conversion.source !== "$self" && conversion.target !== "$self") {
+      collector.add(path, 'Either source or target must be "$self"');
+    }
+    collector.optionalString(conversion, "description", path);
+    if (!("lossless" in conversion)) {
+      collector.add(pointer(path, "lossless"), "Required property is missing");
+    } else if (!isBoolean(conversion.lossless)) {
+      collector.add(pointer(path, "lossless"), "Expected a boolean");
+    }
+    validateScriptBlock(collector, conversion.script, pointer(path, "script"));
+  });
+}
+
+function validateFunctionSpecification(
+  collector: IssueCollector,
+  spec: Record<string, unknown>,
+): void {
+  collector.unknownKeys(spec, FUNCTION_KEYS, "");
+  collector.requiredString(spec, "name", "");
+  collector.requiredString(spec, "keyword", "");
+  collector.optionalString(spec, "description", "");
+  collector.optionalVersion(spec, "version", "");
+  collector.optionalString(spec, "slug", "");
+  validateScriptBlock(collector, spec.script, "/script");
+
+  if ("input" in spec) {
+    const input = spec.input;
+    if (!isObject(input)) {
+      collector.add("/input", "Expected an object");
+    } else {
+      if (input.type !== "object") {
+        collector.add("/input/type", 'Expected "object"');
+      }
+      if ("properties" in input && !isObject(input.properties)) {
+        collector.add("/input/properties", "Expected an object");
+      }
+    }
+  }
+
+  if ("requirements" in spec) {
+    const requirements = spec.requirements;
+    if (!isArray(requirements)) {
+      collector.add("/requirements", "Expected an array of schema URIs");
+    } else {
+      requirements.forEach((requirement, index) => {
+        if (!isString(requirement) || !parseSchemaUri(requirement)) {
+          collector.add(pointer("/requirements", index), "Expected a schema URI");
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Validate a parsed schema.json document
+ * Returns all issues found; an empty array means the document is valid
+ */
+export function validateSchemaSpecification(data: unknown): SchemaValidationIssue[] {
+  const collector = new IssueCollector();
+
+  if (!isObject(data)) {
+    collector.add("", "Schema must be an object");
+    return collector.issues;
+  }
+
+  if (data.type === "color") {
+    validateColorSpecification(collector, data);
+  } else if (data.type === "function") {
+    validateFunctionSpecification(collector, data);
+  } else if (!("type" in data)) {
+    collector.add("/type", "Required property is missing");
+  } else {
+    collector.add("/type", 'Expected "color" or "function"');
+  }
+
+  return collector.issues;
+}
+
+/**
+ * Validate a parsed schema.json document, throwing if it is invalid
+ */
+export function assertValidSchemaSpecification(
+  data: unknown,
+  file?: string,
+): asserts data is SchemaSpecification {
+  const issues = validateSchemaSpecification(data);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(issues, file);
+  }
+}
+
+/**
+ * Read and validate the schema.json of a schema directory
+ * JSON syntax errors are reported as a root-level issue
+ */
+export async function validateSchemaDirectory(schemaDir: string): Promise<SchemaValidationIssue[]> {
+  const schemaJsonPath = join(schemaDir, "schema.json");
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(schemaJsonPath, "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [{ path: "", message: `schema.json not found in: ${schemaDir}` }];
+    }
+    return [{ path: "", message: `Invalid JSON: ${(error as Error).message}` }];
+  }
+
+  return validateSchemaSpecification(data);
+}
+
+/**
+ * Format validation issues for display
+ */
+export function formatValidationIssues(issues: SchemaValidationIssue[], file?: string): string {
+  const lines = [file ? `Invalid schema ${file}:` : "Invalid schema:"];
+  for (const issue of issues) {
+    lines.push(`  ${issue.path || "/"}: ${issue.message}`);
+  }
+  return lines.join("\n");
+}
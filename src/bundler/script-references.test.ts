@@ -0,0 +1,144 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { buildSchemaFromDirectory } from "./build-schema.js";
+import { checkScriptReferences, ScriptReferenceError } from "./script-references.js";
+import type { ColorSpecification } from "./types.js";
+
+const TOKENSCRIPT_TYPE = "/api/v1/core/tokenscript/0/";
+
+function colorSchema(initializerScript: string, conversionScript: string): ColorSpecification {
+  return {
+    name: "RefTest",
+    type: "color",
+    initializers: [
+      { keyword: "reftest", script: { type: TOKENSCRIPT_TYPE, script: initializerScript } },
+    ],
+    conversions: [
+      {
+        source: "/api/v1/core/rgb-color/0/",
+        target: "$self",
+        lossless: true,
+        script: { type: TOKENSCRIPT_TYPE, script: conversionScript },
+      },
+    ],
+  };
+}
+
+describe("Script References", () => {
+  const testDir = join(process.cwd(), "test-script-references");
+
+  beforeAll(async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, "initializer.tokenscript"), "variable x: Number = 1;\nx");
+    await writeFile(join(testDir, "from-rgb.tokenscript"), "  \n");
+    await writeFile(join(testDir, "stale.tokenscript"), "variable y: Number = 2;\ny");
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should warn about empty inline scripts", async () => {
+    const schema = colorSchema("./initializer.tokenscript", " \n ");
+    const report = await checkScriptReferences(testDir, schema);
+
+    expect(report.errors).toEqual([]);
+    expect(report.warnings).toContainEqual({
+      location: "/conversions/0/script/script",
+      message: "Inline script is empty",
+    });
+  });
+
+  it("should accept resolvable references and inline scripts", async () => {
+    const schema = colorSchema("./initializer.tokenscript", "variable c: Number = 1;\nc");
+    const report = await checkScriptReferences(testDir, schema);
+
+    expect(report.errors).toEqual([]);
+  });
+
+  it("should report misspelled references with a suggestion", async () => {
+    const schema = colorSchema("./intializer.tokenscript", "from-rgb.tokenscript");
+    const report = await checkScriptReferences(testDir, schema);
+
+    expect(report.errors).toEqual([
+      {
+        location: "/initializers/0/script/script",
+        message:
+          'Script file "./intializer.tokenscript" not found (did you mean "./initializer.tokenscript"?)',
+      },
+      {
+        location: "/conversions/0/script/script",
+        message:
+          'Script reference "from-rgb.tokenscript" must be relative to the schema directory and start with "./" (did you mean "./from-rgb.tokenscript"?)',
+      },
+    ]);
+  });
+
+  it("should report single-word inline scripts that match a script file", async () => {
+    const report = await checkScriptReferences(testDir, colorSchema("initializer", "from-rbg"));
+
+    expect(report.errors).toEqual([
+      {
+        location: "/initializers/0/script/script",
+        message:
+          'Inline script "initializer" looks like a script reference (did you mean "./initializer.tokenscript"?)',
+      },
+      {
+        location: "/conversions/0/script/script",
+        message:
+          'Inline script "from-rbg" looks like a script reference (did you mean "./from-rgb.tokenscript"?)',
+      },
+    ]);
+    expect((await checkScriptReferences(testDir, colorSchema("x", "1"))).errors).toEqual([]);
+  });
+
+  it("should warn about empty and orphaned scripts", async () => {
+    const schema = colorSchema("./initializer.tokenscript", "./from-rgb.tokenscript");
+    const report = await checkScriptReferences(testDir, schema);
+
+    expect(report.errors).toEqual([]);
+    expect(report.warnings).toEqual([
+      {
+        location: "/conversions/0/script/script",
+        message: 'Script file "./from-rgb.tokenscript" is empty',
+      },
+      { location: "stale.tokenscript", message: "Script file is not referenced by schema.json" },
+    ]);
+  });
+
+  describe("buildSchemaFromDirectory with strict mode", () => {
+    it("should keep unresolved references as literal scripts without strict mode", async () => {
+      const schemaDir = join(testDir, "lenient");
+      await mkdir(schemaDir, { recursive: true });
+      const schema = colorSchema("initializer.tokenscript", "variable c: Number = 1;\nc");
+      await writeFile(join(schemaDir, "schema.json"), JSON.stringify(schema));
+
+      const built = (await buildSchemaFromDirectory(schemaDir)) as ColorSpecification;
+
+      expect(built.initializers[0].script.script).toBe("initializer.tokenscript");
+    });
+
+    it("should fail on unresolved references in strict mode", async () => {
+      const schemaDir = join(testDir, "strict");
+      await mkdir(schemaDir, { recursive: true });
+      const schema = colorSchema("initializer.tokenscript", "variable c: Number = 1;\nc");
+      await writeFile(join(schemaDir, "schema.json"), JSON.stringify(schema));
+
+      await expect(buildSchemaFromDirectory(schemaDir, { strict: true })).rejects.toBeInstanceOf(
+        ScriptReferenceError,
+      );
+    });
+
+    it("should pass warnings to onWarning in strict mode", async () => {
+      const schema = colorSchema("./initializer.tokenscript", "./from-rgb.tokenscript");
+      await writeFile(join(testDir, "schema.json"), JSON.stringify(schema));
+      const onWarning = vi.fn();
+
+      await buildSchemaFromDirectory(testDir, { strict: true, onWarning });
+
+      expect(onWarning).toHaveBeenCalledTimes(2);
+      expect(onWarning.mock.calls[1][0]).toContain("stale.tokenscript");
+    });
+  });
+});
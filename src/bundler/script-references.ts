@@ -0,0 +1,195 @@
+/**
+ * Strict checking of script file references in schema specifications
+ * Catches misspelled or unresolved references and stale .tokenscript files
+ */
+
+import type { SchemaSpecification } from "@/bundler/types.js";
+import { readTokenScriptFiles } from "@/bundler/utils.js";
+
+const SCRIPT_EXTENSION = ".tokenscript";
+
+export interface ScriptReferenceIssue {
+  /** JSON pointer to the script value, or the script file name for orphaned files */
+  location: string;
+  message: string;
+}
+
+export interface ScriptReferenceReport {
+  errors: ScriptReferenceIssue[];
+  warnings: ScriptReferenceIssue[];
+}
+
+/**
+ * Thrown in strict mode when a schema contains unresolved script references
+ */
+export class ScriptReferenceError extends Error {
+  readonly issues: ScriptReferenceIssue[];
+
+  constructor(schemaDir: string, issues: ScriptReferenceIssue[]) {
+    const details = issues.map((issue) => `  ${issue.location}: ${issue.message}`).join("\n");
+    super(`Unresolved script references in ${schemaDir}:\n${details}`);
+    this.name = "ScriptReferenceError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * List every script value in a specification with its JSON pointer
+ */
+export function collectScriptValues(
+  schema: SchemaSpecification,
+): Array<{ path: string; script: string }> {
+  if (schema.type === "function") {
+    return [{ path: "/script/script", script: schema.script.script }];
+  }
+
+  return [
+    ...schema.initializers.map((initializer, index) => ({
+      path: `/initializers/${index}/script/script`,
+      script: initializer.script.script,
+    })),
+    ...schema.conversions.map((conversion, index) => ({
+      path: `/conversions/${index}/script/script`,
+      script: conversion.script.script,
+    })),
+  ];
+}
+
+/**
+ * Whether a script value looks like a file path rather than inline TokenScript code
+ */
+function looksLikeFileReference(script: string): boolean {
+  return (
+    !/\s/.test(script) &&
+    (script.startsWith("./") || script.startsWith("../") || script.endsWith(SCRIPT_EXTENSION))
+  );
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Suggest the closest existing script file for a misspelled reference
+ * Names are compared with and without the .tokenscript extension
+ */
+function suggestScriptFile(
+  reference: string,
+  files: string[],
+  maxDistance?: number,
+): string | null {
+  const name = reference.replace(/^(\.\.?\/)+/, "");
+  let best: string | null = null;
+  let bestDistance = Number.POSITIVE_INFINITY;
+
+  for (const file of files) {
+    const distance = Math.min(
+      editDistance(name, file),
+      editDistance(name, file.slice(0, -SCRIPT_EXTENSION.length)),
+    );
+    if (distance < bestDistance) {
+      best = file;
+      bestDistance = distance;
+    }
+  }
+
+  return best !== null && bestDistance <= (maxDistance ?? Math.max(3, Math.floor(name.length / 4)))
+    ? `./${best}`
+    : null;
+}
+
+/**
+ * Check all script references of a schema against the files in its directory
+ *
+ * Errors: references that don't start with "./", don't point to a .tokenscript file
+ * or point to a file that doesn't exist, and single-word inline scripts that (nearly) match
+ * a script file name, e.g. "rgb-to-hsl" for "./rgb-to-hsl.tokenscript".
+ * Warnings: scripts that are empty after trimming and .tokenscript files that no script
+ * value references.
+ */
+export async function checkScriptReferences(
+  schemaDir: string,
+  schema: SchemaSpecification,
+): Promise<ScriptReferenceReport> {
+  const scripts = await readTokenScriptFiles(schemaDir);
+  const files = Object.keys(scripts).map((name) => `${name}${SCRIPT_EXTENSION}`);
+  const referenced = new Set<string>();
+  const errors: ScriptReferenceIssue[] = [];
+  const warnings: ScriptReferenceIssue[] = [];
+
+  const withSuggestion = (message: string, reference: string) => {
+    const suggestion = suggestScriptFile(reference, files);
+    return suggestion ? `${message} (did you mean "${suggestion}"?)` : message;
+  };
+
+  for (const { path, script } of collectScriptValues(schema)) {
+    if (!looksLikeFileReference(script)) {
+      if (script.trim() === "") {
+        warnings.push({ location: path, message: "Inline script is empty" });
+        continue;
+      }
+      // A single word is hardly TokenScript code, but a reference without "./" and extension
+      const suggestion = /\s/.test(script)
+        ? null
+        : suggestScriptFile(script, files, Math.floor(script.length / 4));
+      if (suggestion) {
+        errors.push({
+          location: path,
+          message: `Inline script "${script}" looks like a script reference (did you mean "${suggestion}"?)`,
+        });
+      }
+      continue;
+    }
+
+    if (!script.startsWith("./") || script.startsWith("./../")) {
+      errors.push({
+        location: path,
+        message: withSuggestion(
+          `Script reference "${script}" must be relative to the schema directory and start with "./"`,
+          script,
+        ),
+      });
+      continue;
+    }
+
+    const fileName = script.slice(2);
+    if (!fileName.endsWith(SCRIPT_EXTENSION)) {
+      errors.push({
+        location: path,
+        message: withSuggestion(`Script reference "${script}" is not a .tokenscript file`, script),
+      });
+      continue;
+    }
+
+    const content = scripts[fileName.slice(0, -SCRIPT_EXTENSION.length)];
+    if (content === undefined) {
+      errors.push({
+        location: path,
+        message: withSuggestion(`Script file "${script}" not found`, script),
+      });
+      continue;
+    }
+
+    referenced.add(fileName);
+    if (content.trim() === "") {
+      warnings.push({ location: path, message: `Script file "${script}" is empty` });
+    }
+  }
+
+  for (const file of files.sort()) {
+    if (!referenced.has(file)) {
+      warnings.push({ location: file, message: "Script file is not referenced by schema.json" });
+    }
+  }
+
+  return { errors, warnings };
+}
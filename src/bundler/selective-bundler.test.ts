@@ -1,6 +1,9 @@
+import { cp, mkdir, readFile, rm, writeFile } from "node:fs/promises";
 import { join } from "node:path";
-import { describe, expect, it } from "vitest";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { SchemaCache } from "./schema-cache.js";
 import { bundleSelectiveSchemas } from "./selective-bundler.js";
+import type { ColorSpecification } from "./types.js";
 
 const SCHEMAS_DIR = join(process.cwd(), "src/schemas");
 
@@ -91,4 +94,174 @@ describe("Selective Bundler", () => {
     expect(result.metadata.generatedAt).toBeDefined();
     expect(new Date(result.metadata.generatedAt).getTime()).toBeGreaterThan(0);
   });
+
+  it("should build each schema only once", async () => {
+    const cache = new SchemaCache();
+    const result = await bundleSelectiveSchemas({
+      schemas: ["function:invert"],
+      schemasDir: SCHEMAS_DIR,
+      cache,
+    });
+
+    expect(cache.stats.misses).toBe(result.schemas.length);
+    expect(cache.stats.hits).toBeGreaterThan(0);
+  });
+
+  describe("Layered schema directories", () => {
+    const brandDir = join(process.cwd(), "test-layered-schemas");
+
+    beforeAll(async () => {
+      // Override rgb-color with a renamed copy of the built-in schema
+      const rgbDir = join(brandDir, "types", "rgb-color");
+      await mkdir(join(brandDir, "types"), { recursive: true });
+      await cp(join(SCHEMAS_DIR, "types", "rgb-color"), rgbDir, { recursive: true });
+      const schema = JSON.parse(await readFile(join(rgbDir, "schema.json"), "utf-8"));
+      await writeFile(join(rgbDir, "schema.json"), JSON.stringify({ ...schema, name: "BrandRGB" }));
+    });
+
+    afterAll(async () => {
+      await rm(brandDir, { recursive: true, force: true });
+    });
+
+    it("should prefer schemas from earlier directories", async () => {
+      const result = await bundleSelectiveSchemas({
+        schemas: ["function:invert"],
+        schemasDir: [brandDir, SCHEMAS_DIR],
+      });
+
+      const rgb = result.schemas.find((s) => s.uri.includes("/rgb-color/"));
+      expect(rgb?.schema.name).toBe("BrandRGB");
+
+      // Schemas missing from the override layer fall through to the built-in layer
+      expect(result.schemas.some((s) => s.uri.includes("/function/invert/"))).toBe(true);
+    });
+
+    it("should record layers and shadowed schemas in the dependency tree", async () => {
+      const result = await bundleSelectiveSchemas({
+        schemas: ["function:invert"],
+        schemasDir: `${brandDir},${SCHEMAS_DIR}`,
+      });
+
+      const rgb = result.dependencyTree.get("type:rgb-color");
+      expect(rgb?.layer).toBe(0);
+      expect(rgb?.schemaDir).toBe(join(brandDir, "types", "rgb-color"));
+      expect(rgb?.shadowed).toEqual([join(SCHEMAS_DIR, "types", "rgb-color")]);
+
+      const invert = result.dependencyTree.get("function:invert");
+      expect(invert?.layer).toBe(1);
+      expect(invert?.shadowed).toEqual([]);
+    });
+  });
+
+  describe("Schema versions", () => {
+    const versionsDir = join(process.cwd(), "test-versioned-schemas");
+
+    beforeAll(async () => {
+      // Side-by-side versions of a custom type, plus a function requiring version 1
+      for (const version of ["0", "1"]) {
+        const versionDir = join(versionsDir, "types", "rgb-color", version);
+        await cp(join(SCHEMAS_DIR, "types", "rgb-color"), versionDir, { recursive: true });
+        const schema = JSON.parse(await readFile(join(versionDir, "schema.json"), "utf-8"));
+        await writeFile(
+          join(versionDir, "schema.json"),
+          JSON.stringify({ ...schema, name: `RGB v${version}` }),
+        );
+      }
+
+      const functionDir = join(versionsDir, "functions", "invert-v1");
+      await cp(join(SCHEMAS_DIR, "functions", "invert"), functionDir, { recursive: true });
+      const schema = JSON.parse(await readFile(join(functionDir, "schema.json"), "utf-8"));
+      await writeFile(
+        join(functionDir, "schema.json"),
+        JSON.stringify({ ...schema, requirements: ["/api/v1/core/rgb-color/1/"] }),
+      );
+    });
+
+    afterAll(async () => {
+      await rm(versionsDir, { recursive: true, force: true });
+    });
+
+    it("should select the latest version by default", async () => {
+      const result = await bundleSelectiveSchemas({
+        schemas: ["rgb-color"],
+        schemasDir: [versionsDir, SCHEMAS_DIR],
+      });
+
+      const rgb = result.schemas.find((s) => s.uri.includes("/rgb-color/"));
+      expect(rgb?.uri).toMatch(/\/api\/v1\/core\/rgb-color\/1\/$/);
+      expect(rgb?.schema.name).toBe("RGB v1");
+      expect(result.dependencyTree.get("type:rgb-color@1")?.version).toBe("1");
+    });
+
+    it("should bundle an explicitly requested version", async () => {
+      const result = await bundleSelectiveSchemas({
+        schemas: ["rgb-color@0"],
+        schemasDir: [versionsDir, SCHEMAS_DIR],
+      });
+
+      const rgb = result.schemas.find((s) => s.uri.includes("/rgb-color/"));
+      expect(rgb?.uri).toMatch(/\/api\/v1\/core\/rgb-color\/0\/$/);
+      expect(rgb?.schema.name).toBe("RGB v0");
+    });
+
+    it("should bundle several versions of the same schema side by side", async () => {
+      const result = await bundleSelectiveSchemas({
+        schemas: ["function:invert-v1", "type:rgb-color@0"],
+        schemasDir: [versionsDir, SCHEMAS_DIR],
+      });
+
+      const rgbUris = result.schemas
+        .filter((s) => s.uri.includes("/rgb-color/"))
+        .map((s) => s.uri.replace(/^.*\/core\//, ""));
+      expect(rgbUris.sort()).toEqual(["rgb-color/0/", "rgb-color/1/"]);
+      expect(result.dependencyTree.get("function:invert-v1")?.dependencies).toContain(
+        "type:rgb-color@1",
+      );
+    });
+  });
+
+  describe("Conversion pruning", () => {
+    it("should drop conversions to types outside the bundle", async () => {
+      const result = await bundleSelectiveSchemas({
+        schemas: ["css-color"],
+        schemasDir: SCHEMAS_DIR,
+        pruneConversions: true,
+      });
+
+      expect(result.schemas).toHaveLength(1);
+      const css = result.schemas[0].schema as ColorSpecification;
+      expect(css.conversions).toHaveLength(0);
+      expect(result.prunedConversions.length).toBeGreaterThan(0);
+      expect(result.prunedConversions).toContainEqual(
+        expect.objectContaining({ schema: "css-color", target: "$self" }),
+      );
+    });
+
+    it("should keep conversions between requested types", async () => {
+      const result = await bundleSelectiveSchemas({
+        schemas: ["rgb-color", "hex-color"],
+        schemasDir: SCHEMAS_DIR,
+        pruneConversions: true,
+      });
+
+      const rgb = result.schemas.find((s) => s.uri.includes("/rgb-color/"))
+        ?.schema as ColorSpecification;
+      expect(rgb.conversions.length).toBeGreaterThan(0);
+      for (const conversion of rgb.conversions) {
+        const endpoint = conversion.source === "$self" ? conversion.target : conversion.source;
+        expect(endpoint).toContain("/hex-color/");
+      }
+      expect(result.prunedConversions.every((c) => c.schema !== "hex-color")).toBe(true);
+    });
+
+    it("should not prune without the option", async () => {
+      const result = await bundleSelectiveSchemas({
+        schemas: ["rgb-color"],
+        schemasDir: SCHEMAS_DIR,
+      });
+
+      expect(result.prunedConversions).toEqual([]);
+      expect(result.schemas.length).toBeGreaterThan(1);
+    });
+  });
 });
@@ -3,26 +3,62 @@
  * Bundles specific schemas with automatic dependency resolution
  */
 
-import { access } from "node:fs/promises";
-import { join } from "node:path";
-import { buildSchemaFromDirectory } from "./build-schema.js";
+import { computeSchemaIntegrity } from "./integrity.js";
+import type { Reporter } from "./reporter.js";
+import { SchemaCache } from "./schema-cache.js";
 import {
+  annotateConversionPaths,
   collectDependencyTree,
   collectRequiredSchemasForList,
+  type DependencyCycle,
   type DependencyNode,
+  resolveReferenceId,
+  resolveSchemaReference,
 } from "./schema-dependency-resolver.js";
+import {
+  DEFAULT_SCHEMA_VERSION,
+  detectSchemaType,
+  locateSchemaVersion,
+  normalizeSchemaDirs,
+  parseSchemaId,
+} from "./schema-layers.js";
 import type { ColorSpecification, FunctionSpecification } from "./types.js";
 
 export interface SelectiveBundleOptions {
-  schemas: string[]; // Schema slugs to bundle
-  schemasDir?: string; // Source directory (default: src/schemas)
+  schemas: string[]; // Schema slugs to bundle, optionally versioned ("rgb-color@1")
+  schemasDir?: string | string[]; // Source directories in precedence order (default: src/schemas)
   baseUrl?: string; // Registry URL for URIs
   cliArgs?: string[]; // CLI arguments used
+  strict?: boolean; // Fail on unresolved script references (see BundleOptions.strict)
+  /**
+   * Don't follow conversion edges to other types; instead drop conversions whose other
+   * endpoint is not part of the bundle (requested schemas and their explicit requirements)
+   */
+  pruneConversions?: boolean;
+  /**
+   * Types that will be passed to the bundled functions, e.g. ["hex-color"]
+   * Types on the conversion paths to each function's required types are bundled too
+   */
+  inputTypes?: string[];
+  /**
+   * Cache of built schemas, e.g. to share builds between bundles of the same directories
+   * Dependency resolution, the dependency tree and the bundle share a new cache when not set
+   */
+  cache?: SchemaCache;
+  /** Receives warnings, resolved dependencies and bundled schemas */
+  reporter?: Reporter;
+}
+
+export interface PrunedConversion {
+  schema: string; // Type id of the schema the conversion was removed from
+  source: string; // Conversion source URI or "$self"
+  target: string; // Conversion target URI or "$self"
 }
 
 export interface BundledSchemaEntry {
   uri: string;
   schema: ColorSpecification | FunctionSpecification;
+  integrity: string; // SHA-256 of the canonical schema JSON, e.g. "sha256-3f2a..."
 }
 
 export interface SelectiveBundleResult {
@@ -34,33 +70,26 @@ export interface SelectiveBundleResult {
     generatedBy?: string;
   };
   dependencyTree: Map<string, DependencyNode>;
+  prunedConversions: PrunedConversion[]; // Empty unless pruneConversions is set
+  cycles: DependencyCycle[]; // Dependency cycles found while resolving
 }
 
 /**
- * Detect whether a schema is a type or function by checking which directory exists
+ * Check whether a conversion endpoint refers to one of the bundled types
  */
-async function detectSchemaType(
-  slug: string,
-  schemasDir: string,
-): Promise<"type" | "function" | null> {
-  const typeDir = join(schemasDir, "types", slug);
-  const functionDir = join(schemasDir, "functions", slug);
-
-  try {
-    await access(typeDir);
-    return "type";
-  } catch {
-    // Not a type, try function
+async function isBundledType(
+  endpoint: string,
+  bundledTypes: string[],
+  schemaDirs: string[],
+): Promise<boolean> {
+  if (endpoint === "$self") {
+    return true;
   }
-
-  try {
-    await access(functionDir);
-    return "function";
-  } catch {
-    // Not found in either
+  const ref = resolveSchemaReference(endpoint);
+  if (!ref) {
+    return false;
   }
-
-  return null;
+  return bundledTypes.includes(await resolveReferenceId(ref, "type", schemaDirs));
 }
 
 /**
@@ -69,83 +98,138 @@ async function detectSchemaType(
 export async function bundleSelectiveSchemas(
   options: SelectiveBundleOptions,
 ): Promise<SelectiveBundleResult> {
-  const schemasDir = options.schemasDir || join(process.cwd(), "src/schemas");
+  const schemaDirs = normalizeSchemaDirs(options.schemasDir);
   const baseUrl = options.baseUrl || "https://schema.tokenscript.dev.gcp.tokens.studio";
+  const cache = options.cache ?? new SchemaCache();
 
   // Parse schema slugs - they might have type prefixes like "function:invert"
+  // and version suffixes like "rgb-color@1"
   const parsedSchemas = await Promise.all(
-    options.schemas.map(async (slug) => {
-      if (slug.includes(":")) {
-        const [type, name] = slug.split(":");
+    options.schemas.map(async (request) => {
+      if (request.includes(":")) {
+        const [type, name] = request.split(":");
         return {
-          slug: name,
+          ...parseSchemaId(name),
           type: (type === "function" ? "function" : "type") as "type" | "function",
         };
       }
 
       // Auto-detect type by checking which directory exists
-      const detectedType = await detectSchemaType(slug, schemasDir);
+      const { slug, version } = parseSchemaId(request);
+      const detectedType = await detectSchemaType(slug, schemaDirs);
       if (detectedType === null) {
         throw new Error(
-          `Schema '${slug}' not found in types or functions directories. ` +
+          `Schema '${slug}' not found in types or functions directories of ${schemaDirs.join(", ")}. ` +
             `Use 'function:${slug}' or 'type:${slug}' prefix to be explicit.`,
         );
       }
 
-      return { slug, type: detectedType };
+      return { slug, version, type: detectedType };
     }),
   );
 
   // Collect all required schemas (including dependencies)
-  // For CLI bundling, we include color type dependencies so conversions work
+  // For CLI bundling, we include color type dependencies so conversions work,
+  // unless conversions to types outside the bundle are pruned instead
+  const includeColorTypeDependencies = !options.pruneConversions;
   const deps = await collectRequiredSchemasForList(parsedSchemas, {
     baseUrl,
-    schemasDir,
-    includeColorTypeDependencies: true,
+    schemasDir: schemaDirs,
+    includeColorTypeDependencies,
+    inputTypes: options.inputTypes,
+    cache,
+    reporter: options.reporter,
   });
 
   // Collect dependency tree for all schemas (including resolved dependencies)
   const allParsedSchemas = [
-    ...deps.types.map((slug) => ({ slug, type: "type" as const })),
-    ...deps.functions.map((slug) => ({ slug, type: "function" as const })),
+    ...deps.types.map((id) => ({
+      ...parseSchemaId(id, DEFAULT_SCHEMA_VERSION),
+      type: "type" as const,
+    })),
+    ...deps.functions.map((id) => ({
+      ...parseSchemaId(id, DEFAULT_SCHEMA_VERSION),
+      type: "function" as const,
+    })),
   ];
   const dependencyTree = await collectDependencyTree(allParsedSchemas, {
     baseUrl,
-    schemasDir,
-    includeColorTypeDependencies: true,
+    schemasDir: schemaDirs,
+    includeColorTypeDependencies,
+    cache,
+    reporter: options.reporter,
   });
+  annotateConversionPaths(dependencyTree, deps.conversionPaths ?? []);
 
   // Track all schema slugs for metadata
   const allSchemas = [...new Set([...deps.types, ...deps.functions])];
 
   // Bundle all schemas
   const bundledSchemas: BundledSchemaEntry[] = [];
+  const prunedConversions: PrunedConversion[] = [];
 
   // Bundle type schemas
-  for (const typeSlug of deps.types) {
-    const schemaDir = join(schemasDir, "types", typeSlug);
-    const bundled = await buildSchemaFromDirectory(schemaDir, { baseUrl });
+  for (const typeId of deps.types) {
+    const { slug, version } = parseSchemaId(typeId, DEFAULT_SCHEMA_VERSION);
+    const location = await locateSchemaVersion(slug, "type", schemaDirs, version);
+    if (!location) {
+      throw new Error(`Schema 'type:${typeId}' not found in ${schemaDirs.join(", ")}`);
+    }
+    const bundled = await cache.load(location.schemaDir, {
+      baseUrl,
+      strict: options.strict,
+      reporter: options.reporter,
+    });
 
     if (bundled.type === "color") {
-      const uri = `${baseUrl}/api/v1/core/${typeSlug}/0/`;
+      if (options.pruneConversions) {
+        const kept: ColorSpecification["conversions"] = [];
+        for (const conversion of bundled.conversions) {
+          const endpoint = conversion.source === "$self" ? conversion.target : conversion.source;
+          if (await isBundledType(endpoint, deps.types, schemaDirs)) {
+            kept.push(conversion);
+          } else {
+            prunedConversions.push({
+              schema: typeId,
+              source: conversion.source,
+              target: conversion.target,
+            });
+          }
+        }
+        bundled.conversions = kept;
+      }
+
+      const uri = `${baseUrl}/api/v1/core/${slug}/${location.version}/`;
       bundledSchemas.push({
         uri,
         schema: bundled as ColorSpecification,
+        integrity: computeSchemaIntegrity(bundled),
       });
+      options.reporter?.report({ type: "schema-built", kind: "type", schema: typeId });
     }
   }
 
   // Bundle function schemas
-  for (const funcSlug of deps.functions) {
-    const schemaDir = join(schemasDir, "functions", funcSlug);
-    const bundled = await buildSchemaFromDirectory(schemaDir, { baseUrl });
+  for (const funcId of deps.functions) {
+    const { slug, version } = parseSchemaId(funcId, DEFAULT_SCHEMA_VERSION);
+    const location = await locateSchemaVersion(slug, "function", schemaDirs, version);
+    if (!location) {
+      throw new Error(`Schema 'function:${funcId}' not found in ${schemaDirs.join(", ")}`);
+    }
+    const bundled = await cache.load(location.schemaDir, {
+      baseUrl,
+      strict: options.strict,
+      reporter: options.reporter,
+    });
 
     if (bundled.type === "function") {
-      const uri = `${baseUrl}/api/v1/function/${funcSlug}/0/`;
+      const uri = `${baseUrl}/api/v1/function/${slug}/${location.version}/`;
       bundledSchemas.push({
         uri,
         schema: bundled as FunctionSpecification,
+        integrity: computeSchemaIntegrity(bundled),
       });
+      options.reporter?.report({ type: "schema-built", kind: "function", schema: funcId });
     }
   }
 
@@ -164,5 +248,7 @@ export async function bundleSelectiveSchemas(
       generatedBy,
     },
     dependencyTree,
+    prunedConversions,
+    cycles: deps.cycles,
   };
 }
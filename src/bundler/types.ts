@@ -63,6 +63,7 @@ export interface ColorSpecification {
   schema?: SpecSchema;
   initializers: Initializer[];
   conversions: Conversion[];
+  version?: string; // Schema version, defaults to "0" (or the version directory name)
   slug?: string; // Added for bundling purposes
 }
 
@@ -72,11 +73,13 @@ export interface FunctionSpecification {
   input?: {
     type: "object";
     properties?: Record<string, unknown>;
+    required?: string[];
   };
   script: ScriptBlock;
   keyword: string;
   description?: string;
   requirements?: string[];
+  version?: string; // Schema version, defaults to "0" (or the version directory name)
   slug?: string; // Added for bundling purposes
 }
 
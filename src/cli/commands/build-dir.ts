@@ -15,6 +15,7 @@ const log = anylogger("build-dir");
 export interface BuildDirOptions {
   output?: string;
   pretty?: boolean;
+  strict?: boolean;
 }
 
 /**
@@ -38,7 +39,7 @@ export async function buildSchemaDir(
   log.info(`Building schema from: ${resolvedDir}`);
 
   // Build the schema using shared bundler logic
-  const schema = await buildSchemaFromDirectory(resolvedDir);
+  const schema = await buildSchemaFromDirectory(resolvedDir, { strict: options.strict });
 
   // Generate output
   const output = options.pretty ? JSON.stringify(schema, null, 2) : JSON.stringify(schema);
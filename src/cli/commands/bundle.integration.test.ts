@@ -111,6 +111,10 @@ describe("Bundle Integration Test", () => {
     // Create config and verify it works
     const config = bundle.makeConfig();
     expect(config).toBeDefined();
+
+    // Integrity hashes match the unmodified bundle
+    expect(Object.keys(bundle.SCHEMA_HASHES)).toEqual(schemaUris);
+    expect(bundle.makeConfig({ verify: true })).toBeDefined();
   });
 
   it("should handle multiple requested schemas correctly", async () => {
@@ -139,8 +143,10 @@ describe("Bundle Integration Test", () => {
       'import { Config } from "@tokens-studio/tokenscript-interpreter"',
     );
     expect(result.output).toContain("export const SCHEMAS = [");
-    expect(result.output).toContain("export function makeConfig()");
-    expect(result.output).toContain("return new Config().registerSchemas(SCHEMAS)");
+    expect(result.output).toContain("export function makeConfig(options = {})");
+    expect(result.output).toContain(
+      "return (config ?? new Config()).registerSchemas([...schemas]);",
+    );
     expect(result.output).toContain("Auto-generated by @tokens-studio/tokenscript-schemas");
 
     // Write and verify it's valid JavaScript by importing it
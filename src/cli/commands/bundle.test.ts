@@ -1,8 +1,9 @@
-import { mkdir, rm, writeFile } from "node:fs/promises";
-import { join } from "node:path";
+import { access, mkdir, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { pathToFileURL } from "node:url";
 import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
 import { expandPresetSchemas } from "@/bundler/presets/index.js";
-import { bundleSchemas } from "./bundle.js";
+import { bundleSchemas, handleBundleCommand } from "./bundle.js";
 
 // Mock ulog to silence logs during tests
 vi.mock("ulog", () => {
@@ -24,7 +25,7 @@ describe("Bundle Command", () => {
     const result = await bundleSchemas(["hex-color"]);
 
     expect(result.output).toContain("export const SCHEMAS");
-    expect(result.output).toContain("export function makeConfig()");
+    expect(result.output).toContain("export function makeConfig(options = {})");
     expect(result.output).toContain("hex-color");
     expect(result.metadata.requestedSchemas).toEqual(["hex-color"]);
   });
@@ -51,6 +52,15 @@ describe("Bundle Command", () => {
     expect(result.metadata.requestedSchemas).toEqual(["function:invert"]);
   });
 
+  it("should generate declarations for JavaScript output only", async () => {
+    const js = await bundleSchemas(["hex-color"]);
+    const ts = await bundleSchemas(["hex-color"], undefined, undefined, { format: "ts" });
+
+    expect(js.declarations).toContain("export declare const SCHEMAS: readonly [");
+    expect(ts.declarations).toBeNull();
+    expect(ts.output).toContain("export const SCHEMAS: readonly [");
+  });
+
   it("should include auto-generated header comment", async () => {
     const result = await bundleSchemas(["hex-color"]);
 
@@ -58,6 +68,75 @@ describe("Bundle Command", () => {
     expect(result.output).toContain("Generated:");
   });
 
+  describe("Split Output", () => {
+    const splitDir = join(process.cwd(), "test-split-output");
+
+    afterAll(async () => {
+      await rm(splitDir, { recursive: true, force: true });
+    });
+
+    it("should write one module per schema and load dependencies with a function", async () => {
+      const { schemas, splitFiles } = await bundleSchemas(
+        ["function:invert", "hex-color"],
+        undefined,
+        undefined,
+        { split: true },
+      );
+      const invert = schemas.find((entry) => entry.uri.includes("/function/invert/"));
+      const hex = schemas.find((entry) => entry.uri.includes("/hex-color/"));
+
+      expect(splitFiles?.map((file) => file.path)).toEqual([
+        ...schemas.map((entry) =>
+          entry.uri.includes("/function/")
+            ? expect.stringMatching(/^functions\/.+\.js$/)
+            : expect.stringMatching(/^types\/.+\.js$/),
+        ),
+        "index.js",
+        "index.d.ts",
+      ]);
+      expect(splitFiles?.find((file) => file.path === "index.d.ts")?.content).toContain(
+        "export declare function loadSchemas(uris: readonly SchemaUri[])",
+      );
+
+      // The interpreter is only needed by makeConfig()
+      for (const file of splitFiles ?? []) {
+        const path = join(splitDir, file.path);
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, file.content.replace(/^import \{ Config \}.*$/m, ""));
+      }
+      const index = await import(pathToFileURL(join(splitDir, "index.js")).href);
+
+      expect(index.SCHEMA_URIS).toEqual(schemas.map((entry) => entry.uri));
+
+      const loaded = await index.loadSchemas([invert?.uri]);
+      const loadedUris: string[] = loaded.map((entry: { uri: string }) => entry.uri);
+      expect(loadedUris).toContain(invert?.uri);
+      const requirements = invert?.schema.type === "function" ? invert.schema.requirements : [];
+      for (const requirement of requirements ?? []) {
+        expect(loadedUris.some((uri) => uri.endsWith(requirement))).toBe(true);
+      }
+      expect(loaded.find((entry: { uri: string }) => entry.uri === invert?.uri).schema).toEqual(
+        invert?.schema,
+      );
+
+      const types = await index.loadSchemas([hex?.uri]);
+      expect(types.map((entry: { uri: string }) => entry.uri)).not.toContain(invert?.uri);
+
+      await expect(index.loadSchemas(["https://example.com/unknown/0/"])).rejects.toThrow(
+        "Unknown schema: https://example.com/unknown/0/",
+      );
+      await expect(index.loadSchemas(["toString"])).rejects.toThrow("Unknown schema: toString");
+    });
+
+    it("should write the lockfile into the split directory", async () => {
+      const lockDir = join(splitDir, "locked");
+      await handleBundleCommand(["hex-color"], { split: lockDir, reporter: "silent" });
+
+      await expect(access(join(lockDir, "tokenscript-schemas.lock.json"))).resolves.toBeUndefined();
+      await expect(access(join(splitDir, "tokenscript-schemas.lock.json"))).rejects.toThrow();
+    });
+  });
+
   describe("Presets", () => {
     it("should expand preset:css to schema list", () => {
       const result = expandPresetSchemas(["preset:css"]);
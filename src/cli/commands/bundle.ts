@@ -4,15 +4,45 @@
 
 /// <reference types="../../../types/ulog" />
 
-import { existsSync } from "node:fs";
 import { mkdir, readFile, writeFile } from "node:fs/promises";
-import { dirname, join } from "node:path";
-import { fileURLToPath } from "node:url";
+import { dirname, join, relative, resolve, sep } from "node:path";
 import anylogger from "ulog";
+import { analyzeConversionGraph, type ConversionReachability } from "@/bundler/conversion-graph.js";
 import { expandPresetSchemas } from "@/bundler/presets/index.js";
-import { bundleSelectiveSchemas } from "@/bundler/selective-bundler.js";
+import { createReporter, type Reporter } from "@/bundler/reporter.js";
+import {
+  type DependencyCycle,
+  type DependencyNode,
+  findDependencyTreeKey,
+} from "@/bundler/schema-dependency-resolver.js";
+import { formatSchemaId, normalizeSchemaDirs } from "@/bundler/schema-layers.js";
+import {
+  type BundledSchemaEntry,
+  bundleSelectiveSchemas,
+  type PrunedConversion,
+} from "@/bundler/selective-bundler.js";
 import { type BundleConfig, validateBundleConfig } from "@/cli/config-schema.js";
-import { generateOutput } from "@/cli/output-generator.js";
+import {
+  createLockfile,
+  diffLockfiles,
+  LOCKFILE_NAME,
+  readLockfile,
+  writeLockfile,
+} from "@/cli/lockfile.js";
+import {
+  declarationPath,
+  generateDeclarations,
+  generateOutput,
+  generateSplitOutput,
+  type HelperOptions,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+  outputFormatFromPath,
+  resolveReproducibleOptions,
+  type SplitOutputFile,
+} from "@/cli/output-generator.js";
+import { findSchemasDir } from "@/cli/schemas-dir.js";
+import { parseSchemaUri, semverToString } from "@/utils/schema-uri.js";
 import { isSome } from "@/utils/type.js";
 
 const log = anylogger("bundle");
@@ -20,14 +50,36 @@ const log = anylogger("bundle");
 export interface BundleOptions {
   config?: string;
   output?: string;
+  format?: string; // Output format: js, ts, cjs or json (default: from the output extension)
+  split?: string; // Directory for one ES module per schema and a lazy loading index
   dryRun?: boolean;
   schemasDir?: string; // Comma-separated list of custom schema directories
+  strict?: boolean;
+  pruneConversions?: boolean;
+  inputTypes?: string; // Comma-separated list of types passed to bundled functions
+  failOnCycle?: boolean; // Fail when schemas require each other in a cycle
+  reporter?: string; // Progress output: pretty (default), silent or json
+  lockfile?: string; // Lockfile path (default: next to the output, or in the split directory)
+  frozen?: boolean; // Fail instead of bundling when resolution differs from the lockfile
+  timestamp?: boolean; // false (--no-timestamp) leaves out the timestamp for reproducible output
+}
+
+export interface BundleSchemasOptions {
+  strict?: boolean; // Fail on unresolved script references
+  pruneConversions?: boolean; // Drop conversions to types outside the bundle
+  inputTypes?: string[]; // Bundle the conversion paths from these types to function requirements
+  reporter?: Reporter; // Receives warnings, resolved dependencies and bundled schemas
+  format?: OutputFormat; // Output format (default: js)
+  split?: boolean; // Also generate code-split output (one module per schema)
+  helper?: HelperOptions | false; // makeConfig() helper features, false leaves it out (default: all)
+  deterministic?: boolean; // Sort schemas and object keys, leave the git SHA out of the version
+  timestamp?: Date | null; // Time in the `Generated:` line, null leaves it out (default: now)
 }
 
 /**
  * Load config from file
  */
-async function loadConfig(configPath: string): Promise<BundleConfig> {
+export async function loadConfig(configPath: string): Promise<BundleConfig> {
   try {
     const content = await readFile(configPath, "utf-8");
     const parsed = JSON.parse(content);
@@ -40,12 +92,56 @@ async function loadConfig(configPath: string): Promise<BundleConfig> {
   }
 }
 
+/**
+ * Resolve schema layers: custom directories in the given order, then the built-in schemas
+ */
+export function resolveSchemaLayers(schemasDir?: string | string[]): string[] {
+  const builtInDir = findSchemasDir();
+  const customDirs = schemasDir ? normalizeSchemaDirs(schemasDir) : [];
+  const layers = [...customDirs, builtInDir].map((dir) => resolve(dir));
+  return [...new Set(layers)];
+}
+
+/**
+ * Human readable label for a schema layer
+ */
+function formatLayerLabel(schemaDirs: string[], layer: number): string {
+  if (layer === schemaDirs.length - 1) {
+    return "built-in";
+  }
+  return relative(process.cwd(), schemaDirs[layer]) || schemaDirs[layer];
+}
+
+/**
+ * Format the schemas that override same-slug schemas in lower layers
+ */
+function formatShadowedSchemas(tree: Map<string, DependencyNode>, schemaDirs: string[]): string {
+  const lines: string[] = [];
+
+  for (const [key, node] of [...tree.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    for (const shadowedDir of node.shadowed) {
+      const shadowedLayer = schemaDirs.findIndex((dir) => shadowedDir.startsWith(dir + sep));
+      lines.push(
+        `  ${key}: ${formatLayerLabel(schemaDirs, node.layer)} shadows ${formatLayerLabel(schemaDirs, shadowedLayer)}`,
+      );
+    }
+  }
+
+  if (lines.length === 0) {
+    return "";
+  }
+
+  return ["Shadowed schemas:", ...lines].join("\n");
+}
+
 /**
  * Format dependency tree for display
+ * When several schema layers are in use, each node is annotated with its layer
  */
 function formatDependencyTree(
-  tree: Map<string, import("@/bundler/schema-dependency-resolver.js").DependencyNode>,
+  tree: Map<string, DependencyNode>,
   requestedSchemas: string[],
+  schemaDirs: string[] = [],
 ): string {
   const lines: string[] = [];
   const visited = new Set<string>();
@@ -54,39 +150,50 @@ function formatDependencyTree(
   lines.push("");
 
   // Helper to format a node
-  const formatNode = (key: string, indent: string = "", isLast: boolean = true) => {
+  // Schemas already shown are referenced instead of repeated, cycles are marked
+  const formatNode = (
+    key: string,
+    indent: string = "",
+    isLast: boolean = true,
+    ancestors: string[] = [],
+  ) => {
+    const node = tree.get(key);
+    if (!node) return;
+
+    const prefix = indent + (isLast ? "└── " : "├── ");
+    let label = `${node.type}:${formatSchemaId(node.slug, node.version)}`;
+    if (ancestors.includes(key)) {
+      lines.push(`${prefix + label} ↻ (cycle)`);
+      return;
+    }
     if (visited.has(key)) {
+      lines.push(`${prefix + label} (see above)`);
       return;
     }
     visited.add(key);
 
-    const node = tree.get(key);
-    if (!node) return;
-
-    const prefix = indent + (isLast ? "└── " : "├── ");
-    const label = `${node.type}:${node.slug}`;
+    if (schemaDirs.length > 1) {
+      label += ` (${formatLayerLabel(schemaDirs, node.layer)})`;
+      if (node.shadowed.length > 0) {
+        label += " [overrides]";
+      }
+    }
+    if (node.reason) {
+      label += ` (${node.reason})`;
+    }
     lines.push(prefix + label);
 
-    if (node.dependencies.length > 0) {
-      const childIndent = indent + (isLast ? "    " : "│   ");
-      node.dependencies.forEach((dep, idx) => {
-        const isLastChild = idx === node.dependencies.length - 1;
-        const childKey = dep;
-
-        if (!visited.has(childKey)) {
-          formatNode(childKey, childIndent, isLastChild);
-        }
-      });
-    }
+    // A type may list the same dependency for conversions in both directions
+    const dependencies = [...new Set(node.dependencies)].filter((dep) => tree.has(dep));
+    const childIndent = indent + (isLast ? "    " : "│   ");
+    dependencies.forEach((dep, idx) => {
+      formatNode(dep, childIndent, idx === dependencies.length - 1, [...ancestors, key]);
+    });
   };
 
   // Format requested schemas
   requestedSchemas.forEach((schema, idx) => {
-    // Try to find the schema with different type prefixes
-    const typeKey = `type:${schema}`;
-    const funcKey = `function:${schema}`;
-    const key = tree.has(typeKey) ? typeKey : tree.has(funcKey) ? funcKey : schema;
-
+    const key = findDependencyTreeKey(tree, schema) ?? schema;
     formatNode(key, "", idx === requestedSchemas.length - 1);
   });
 
@@ -94,49 +201,102 @@ function formatDependencyTree(
 }
 
 /**
- * Format bundle result for dry-run display
+ * Format dependency cycles for display
+ * Requirement cycles are warnings, conversion cycles (e.g. oklab ↔ oklch) are expected
  */
-function formatDryRunOutput(schemas: string[], resolvedDependencies: string[]): string {
+function formatCycles(cycles: DependencyCycle[]): string {
   const lines: string[] = [];
 
-  lines.push("Bundle preview:");
-  lines.push("");
-  lines.push(`Requested schemas: ${schemas.join(", ")}`);
-  lines.push(`Total schemas (with dependencies): ${resolvedDependencies.length}`);
-  lines.push("");
-  lines.push("Schemas to be bundled:");
+  for (const cycle of cycles.filter((c) => c.kind === "requirement")) {
+    lines.push(`⚠ Requirement cycle: ${cycle.path.join(" → ")}`);
+  }
 
-  for (const schema of resolvedDependencies.sort()) {
-    lines.push(`  - ${schema}`);
+  const conversionCycles = cycles.filter((c) => c.kind === "conversion").length;
+  if (conversionCycles > 0) {
+    lines.push(`${conversionCycles} conversion cycle(s) between color types (harmless)`);
   }
 
   return lines.join("\n");
 }
 
 /**
- * Find the schemas directory - works for both development/tests and installed package
+ * Format a conversion endpoint for display, e.g. "$self" -> "css-color", URI -> "hsl-color"
  */
-function findSchemasDir(): string {
-  const __filename = fileURLToPath(import.meta.url);
-  const __dirname = dirname(__filename);
+function formatConversionEndpoint(endpoint: string, schema: string): string {
+  if (endpoint === "$self") {
+    return schema;
+  }
+  const components = parseSchemaUri(endpoint);
+  if (!components) {
+    return endpoint;
+  }
+  const version = semverToString(components.version ?? undefined);
+  return version === "latest" ? components.name : formatSchemaId(components.name, version);
+}
 
-  // From compiled dist/cli/commands/bundle.js to src/schemas
-  const fromDist = join(__dirname, "../../src/schemas");
+/**
+ * Format conversions removed by --prune-conversions
+ */
+function formatPrunedConversions(prunedConversions: PrunedConversion[]): string {
+  const lines = [`Pruned conversions (${prunedConversions.length}):`];
 
-  // From source src/cli/commands/bundle.ts to src/schemas (for tests/dev)
-  const fromSource = join(__dirname, "../../schemas");
+  for (const { schema, source, target } of prunedConversions) {
+    lines.push(
+      `  - ${schema}: ${formatConversionEndpoint(source, schema)} → ${formatConversionEndpoint(target, schema)}`,
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format warnings for bundled types that can't be converted into each other
+ */
+function formatUnreachableConversions(reachability: ConversionReachability): string {
+  const targetsBySource = new Map<string, string[]>();
+  for (const { source, target } of reachability.unreachable) {
+    targetsBySource.set(source, [...(targetsBySource.get(source) ?? []), target]);
+  }
 
-  // Check source first (for development), then dist (for installed package)
-  if (existsSync(fromSource)) {
-    return fromSource;
+  if (targetsBySource.size === 0) {
+    return "";
   }
 
-  if (existsSync(fromDist)) {
-    return fromDist;
+  const lines = ["⚠ Unreachable conversions:"];
+  for (const [source, targets] of targetsBySource) {
+    lines.push(`  ${source} cannot be converted to: ${targets.join(", ")}`);
   }
 
-  // Default to source structure (for development)
-  return fromSource;
+  return lines.join("\n");
+}
+
+/**
+ * Format bundle result for dry-run display
+ */
+function formatDryRunOutput(
+  schemas: string[],
+  resolvedDependencies: string[],
+  prunedConversions: PrunedConversion[] = [],
+): string {
+  const lines: string[] = [];
+
+  lines.push("Bundle preview:");
+  lines.push("");
+  lines.push(`Requested schemas: ${schemas.join(", ")}`);
+  lines.push(`Total schemas (with dependencies): ${resolvedDependencies.length}`);
+  lines.push("");
+  lines.push("Schemas to be bundled:");
+
+  for (const schema of resolvedDependencies.sort()) {
+    lines.push(`  - ${schema}`);
+  }
+
+  if (prunedConversions.length > 0) {
+    lines.push("");
+    lines.push(formatPrunedConversions(prunedConversions));
+  }
+
+  return lines.join("\n");
 }
 
 /**
@@ -144,24 +304,35 @@ function findSchemasDir(): string {
  */
 export async function bundleSchemas(
   schemas: string[],
-  schemasDir?: string,
+  schemasDir?: string | string[],
   cliArgs?: string[],
+  options: BundleSchemasOptions = {},
 ): Promise<{
   output: string;
+  declarations: string | null; // .d.ts of JavaScript and CommonJS output, null otherwise
+  splitFiles: SplitOutputFile[] | null; // Code-split output with `split`, null otherwise
   metadata: any;
-  dependencyTree: Map<string, import("@/bundler/schema-dependency-resolver.js").DependencyNode>;
+  dependencyTree: Map<string, DependencyNode>;
+  schemaDirs: string[];
+  schemas: BundledSchemaEntry[];
+  prunedConversions: PrunedConversion[];
+  cycles: DependencyCycle[];
 }> {
-  // Use provided schemasDir or auto-detect
-  const resolvedSchemasDir = schemasDir || findSchemasDir();
+  // Custom schema directories take precedence over the built-in schemas
+  const schemaDirs = resolveSchemaLayers(schemasDir);
 
   log.info("Bundling schemas:", schemas);
-  log.debug("Schemas directory:", resolvedSchemasDir);
+  log.debug("Schema directories:", schemaDirs);
 
   // Bundle schemas with dependencies
   const result = await bundleSelectiveSchemas({
     schemas,
-    schemasDir: resolvedSchemasDir,
+    schemasDir: schemaDirs,
     cliArgs,
+    strict: options.strict,
+    pruneConversions: options.pruneConversions,
+    inputTypes: options.inputTypes,
+    reporter: options.reporter,
   });
 
   log.info(
@@ -169,16 +340,33 @@ export async function bundleSchemas(
   );
 
   // Generate output
-  const output = generateOutput({
+  const outputOptions = {
     schemas: result.schemas,
-    includeHelper: true,
     generatedBy: result.metadata.generatedBy,
-  });
+    helper: options.helper,
+    format: options.format,
+    metadata: result.metadata,
+    deterministic: options.deterministic,
+    timestamp: options.timestamp,
+  };
+  const output = generateOutput(outputOptions);
+  const format = options.format ?? "js";
+  const declarations =
+    format === "js" || format === "cjs" ? generateDeclarations(outputOptions) : null;
+  const splitFiles = options.split
+    ? generateSplitOutput({ ...outputOptions, dependencyTree: result.dependencyTree })
+    : null;
 
   return {
     output,
+    declarations,
+    splitFiles,
     metadata: result.metadata,
     dependencyTree: result.dependencyTree,
+    schemaDirs,
+    schemas: result.schemas,
+    prunedConversions: result.prunedConversions,
+    cycles: result.cycles,
   };
 }
 
@@ -190,26 +378,47 @@ export async function handleBundleCommand(
   options: BundleOptions = {},
 ): Promise<void> {
   try {
+    const reporter = createReporter(options.reporter ?? "pretty");
+
     // Load config if provided
     let configSchemas: string[] = schemas;
-    let outputPath = options.output || "./tokenscript-schemas.js";
+    let configuredOutput = options.output;
 
     if (isSome(options.config)) {
       log.info(`Loading config from ${options.config}`);
       const config = await loadConfig(options.config);
       configSchemas = config.schemas;
       if (config.output) {
-        outputPath = config.output;
+        configuredOutput = config.output;
       }
     }
 
+    // The format follows the output extension unless given
+    const format = (options.format ??
+      (configuredOutput ? outputFormatFromPath(configuredOutput) : "js")) as OutputFormat;
+    if (!OUTPUT_FORMATS.includes(format)) {
+      throw new Error(`Unknown format '${format}'. Expected one of: ${OUTPUT_FORMATS.join(", ")}`);
+    }
+    const outputPath = configuredOutput || `./tokenscript-schemas.${format}`;
+
+    // Split output replaces the single file and is always ES modules
+    if (options.split && options.output) {
+      throw new Error("Use either --output or --split, not both");
+    }
+    if (options.split && options.format && options.format !== "js") {
+      throw new Error(
+        `--split writes ES modules and can't be combined with --format ${options.format}`,
+      );
+    }
+
     // Validate we have schemas
     if (!configSchemas || configSchemas.length === 0) {
       throw new Error("No schemas specified. Provide schemas as arguments or via --config");
     }
 
     // Expand any presets (preset:name -> list of schemas)
-    configSchemas = expandPresetSchemas(configSchemas);
+    const requestedSchemas = configSchemas;
+    configSchemas = expandPresetSchemas(configSchemas, reporter);
 
     // Build CLI args array for generatedBy metadata
     const cliArgs: string[] = [];
@@ -222,47 +431,172 @@ export async function handleBundleCommand(
     if (options.output) {
       cliArgs.push("--output", options.output);
     }
+    if (options.format) {
+      cliArgs.push("--format", options.format);
+    }
+    if (options.split) {
+      cliArgs.push("--split", options.split);
+    }
     if (options.dryRun) {
       cliArgs.push("--dry-run");
     }
     if (options.schemasDir) {
       cliArgs.push("--schemas-dir", options.schemasDir);
     }
+    if (options.strict) {
+      cliArgs.push("--strict");
+    }
+    if (options.pruneConversions) {
+      cliArgs.push("--prune-conversions");
+    }
+    if (options.inputTypes) {
+      cliArgs.push("--input-types", options.inputTypes);
+    }
+    if (options.failOnCycle) {
+      cliArgs.push("--fail-on-cycle");
+    }
+    if (options.timestamp === false) {
+      cliArgs.push("--no-timestamp");
+    }
 
-    // Use custom schema directory if provided
+    // Use custom schema directories if provided
     const customSchemasDir = options.schemasDir;
     if (customSchemasDir) {
-      log.info(`Using custom schema directory: ${customSchemasDir}`);
+      log.info(`Using custom schema directories: ${customSchemasDir}`);
     }
 
     // Bundle schemas
-    const { output, metadata, dependencyTree } = await bundleSchemas(
-      configSchemas,
-      customSchemasDir,
-      cliArgs,
-    );
+    const {
+      output,
+      declarations,
+      splitFiles,
+      metadata,
+      dependencyTree,
+      schemaDirs,
+      schemas: bundled,
+      prunedConversions,
+      cycles,
+    } = await bundleSchemas(configSchemas, customSchemasDir, cliArgs, {
+      strict: options.strict,
+      pruneConversions: options.pruneConversions,
+      inputTypes: options.inputTypes
+        ?.split(",")
+        .map((type) => type.trim())
+        .filter((type) => type !== ""),
+      reporter,
+      format,
+      split: isSome(options.split),
+      ...resolveReproducibleOptions(options.timestamp),
+    });
 
     // Show dependency tree
-    console.log("");
-    console.log(formatDependencyTree(dependencyTree, metadata.requestedSchemas));
-    console.log("");
+    reporter.report({
+      type: "info",
+      message: formatDependencyTree(dependencyTree, metadata.requestedSchemas, schemaDirs),
+    });
+
+    const shadowed = formatShadowedSchemas(dependencyTree, schemaDirs);
+    if (shadowed) {
+      reporter.report({ type: "info", message: shadowed });
+    }
+
+    const cycleReport = formatCycles(cycles);
+    if (cycleReport) {
+      reporter.report({ type: "info", message: cycleReport });
+    }
+
+    const requirementCycles = cycles.filter((cycle) => cycle.kind === "requirement");
+    if (options.failOnCycle && requirementCycles.length > 0) {
+      throw new Error(
+        `${requirementCycles.length} requirement cycle(s) found: ${requirementCycles
+          .map((cycle) => cycle.path.join(" → "))
+          .join("; ")}`,
+      );
+    }
+
+    // Compare with the lockfile before writing anything
+    const lockfilePath =
+      options.lockfile ?? join(options.split ?? dirname(outputPath), LOCKFILE_NAME);
+    const lockfile = createLockfile(requestedSchemas, bundled);
+    if (options.frozen) {
+      const diff = diffLockfiles(await readLockfile(lockfilePath), lockfile);
+      if (diff.length > 0) {
+        throw new Error(
+          `Resolved schemas differ from ${lockfilePath} (--frozen):\n${diff.join("\n")}\n` +
+            "Run bundle without --frozen to update the lockfile",
+        );
+      }
+    }
 
     // Dry run - just show what would be bundled
     if (options.dryRun) {
-      const preview = formatDryRunOutput(metadata.requestedSchemas, metadata.resolvedDependencies);
-      console.log(preview);
+      const preview = formatDryRunOutput(
+        metadata.requestedSchemas,
+        metadata.resolvedDependencies,
+        prunedConversions,
+      );
+      reporter.report({ type: "info", message: preview });
+
+      const unreachable = formatUnreachableConversions(analyzeConversionGraph(bundled));
+      if (unreachable) {
+        reporter.report({ type: "info", message: unreachable });
+      }
       return;
     }
 
-    // Write output file
-    await mkdir(dirname(outputPath), { recursive: true });
-    await writeFile(outputPath, output, "utf-8");
+    // Write output files
+    if (options.split && splitFiles) {
+      for (const file of splitFiles) {
+        const path = join(options.split, file.path);
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, file.content, "utf-8");
+      }
+    } else {
+      await mkdir(dirname(outputPath), { recursive: true });
+      await writeFile(outputPath, output, "utf-8");
+      if (declarations !== null) {
+        await writeFile(declarationPath(outputPath), declarations, "utf-8");
+      }
+    }
+    if (!options.frozen) {
+      await writeLockfile(lockfilePath, lockfile);
+    }
 
     log.info(`Successfully bundled ${metadata.resolvedDependencies.length} schemas`);
-    log.info(`Output written to: ${outputPath}`);
+    if (prunedConversions.length > 0) {
+      log.info(`Pruned ${prunedConversions.length} conversions to types outside the bundle`);
+    }
+    log.info(`Output written to: ${options.split ?? outputPath}`);
 
     // Summary
-    console.log(`✓ Bundled ${metadata.resolvedDependencies.length} schemas → ${outputPath}`);
+    if (options.split) {
+      reporter.report({
+        type: "written",
+        path: join(options.split, "index.js"),
+        description: `lazy loading index of ${metadata.resolvedDependencies.length} schema modules`,
+      });
+      reporter.report({
+        type: "written",
+        path: join(options.split, "index.d.ts"),
+        description: "type declarations",
+      });
+    } else {
+      reporter.report({
+        type: "written",
+        path: outputPath,
+        description: `bundle of ${metadata.resolvedDependencies.length} schemas`,
+      });
+      if (declarations !== null) {
+        reporter.report({
+          type: "written",
+          path: declarationPath(outputPath),
+          description: "type declarations",
+        });
+      }
+    }
+    if (!options.frozen) {
+      reporter.report({ type: "written", path: lockfilePath, description: "lockfile" });
+    }
   } catch (error) {
     log.error("Bundle failed:", error);
     throw error;
@@ -0,0 +1,132 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { bundleSchemas } from "./bundle.js";
+import { checkBundle, formatCheckResult, handleCheckCommand } from "./check.js";
+
+// Mock ulog to silence logs during tests
+vi.mock("ulog", () => {
+  const mockLogger = () => {};
+  mockLogger.error = () => {};
+  mockLogger.warn = () => {};
+  mockLogger.info = () => {};
+  mockLogger.log = () => {};
+  mockLogger.debug = () => {};
+  mockLogger.trace = () => {};
+
+  return {
+    default: () => mockLogger,
+  };
+});
+
+describe("Check Command", () => {
+  const testDir = join(process.cwd(), "test-check-command");
+  const outputPath = join(testDir, "tokenscript-schemas.js");
+
+  beforeAll(async () => {
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should accept a bundle that only differs in its timestamp", async () => {
+    const { output } = await bundleSchemas(["hex-color"], undefined, ["hex-color"]);
+    await writeFile(
+      outputPath,
+      output.replace(/\/\/ Generated: .*/, "// Generated: 2020-01-01T00:00:00.000Z"),
+    );
+
+    const result = await checkBundle(["hex-color"], outputPath);
+
+    expect(result).toEqual({ outputPath, upToDate: true, changes: [] });
+    expect(formatCheckResult(result)).toBe(`✓ ${outputPath} is up to date`);
+  });
+
+  it("should list added, removed and changed schemas", async () => {
+    const { output } = await bundleSchemas(["hex-color"]);
+    await writeFile(outputPath, output.replace('"name": "Hex"', '"name": "Hexadecimal"'));
+
+    const changed = await checkBundle(["hex-color"], outputPath);
+    expect(changed.upToDate).toBe(false);
+    expect(changed.changes).toHaveLength(1);
+    expect(changed.changes[0]).toMatch(/^~ type:hex-color: content changed/);
+
+    const added = await checkBundle(["hex-color", "function:invert"], outputPath);
+    expect(added.changes).toContain("+ function:invert (0)");
+
+    await writeFile(outputPath, (await bundleSchemas(["function:invert"])).output);
+    const removed = await checkBundle(["hex-color"], outputPath);
+    expect(removed.changes).toContain("- function:invert (0)");
+  });
+
+  it("should report a bundle from another package version", async () => {
+    const { output } = await bundleSchemas(["hex-color"]);
+    await writeFile(outputPath, output.replace(/\/\/ Version: .*/, "// Version: 0.0.1"));
+
+    const result = await checkBundle(["hex-color"], outputPath);
+
+    expect(result.changes).toEqual([expect.stringMatching(/^~ Version: 0\.0\.1 → /)]);
+    expect(formatCheckResult(result)).toContain(`✗ ${outputPath} is out of date:\n  ~ Version`);
+  });
+
+  it("should compare bundles without timestamp with deterministic output", async () => {
+    const { output } = await bundleSchemas(["function:invert"], undefined, undefined, {
+      deterministic: true,
+      timestamp: null,
+    });
+    await writeFile(outputPath, output);
+
+    expect((await checkBundle(["function:invert"], outputPath)).upToDate).toBe(true);
+  });
+
+  it("should detect bundles built with SOURCE_DATE_EPOCH without it being set", async () => {
+    const { output } = await bundleSchemas(["function:invert"], undefined, undefined, {
+      deterministic: true,
+      timestamp: new Date(0),
+    });
+    await writeFile(outputPath, output);
+
+    const result = await checkBundle(["function:invert"], outputPath);
+
+    expect(result).toEqual({ outputPath, upToDate: true, changes: [] });
+  });
+
+  it("should check JSON and CommonJS bundles by their extension", async () => {
+    for (const format of ["json", "cjs"] as const) {
+      const path = join(testDir, `tokenscript-schemas.${format}`);
+      await writeFile(
+        path,
+        (await bundleSchemas(["hex-color"], undefined, undefined, { format })).output,
+      );
+
+      expect((await checkBundle(["hex-color"], path)).upToDate).toBe(true);
+      expect((await checkBundle(["hex-color", "function:invert"], path)).changes).toContain(
+        "+ function:invert (0)",
+      );
+    }
+  });
+
+  it("should check the output of a config and fail when stale", async () => {
+    const configPath = join(testDir, "schemas.json");
+    await writeFile(configPath, JSON.stringify({ schemas: ["hex-color"], output: outputPath }));
+    await writeFile(outputPath, (await bundleSchemas(["hex-color"])).output);
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await expect(handleCheckCommand([], { config: configPath })).resolves.toBeUndefined();
+
+    await writeFile(outputPath, (await readFile(outputPath, "utf-8")).replace("Hex", "Hexa"));
+    await expect(handleCheckCommand([], { config: configPath })).rejects.toThrow(
+      `${outputPath} is out of date`,
+    );
+
+    log.mockRestore();
+  });
+
+  it("should fail readably without a bundle", async () => {
+    await expect(checkBundle(["hex-color"], join(testDir, "missing.js"))).rejects.toThrow(
+      "Bundle not found",
+    );
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Check command - Detect generated bundles that are out of date
+ */
+
+/// <reference types="../../../types/ulog" />
+
+import { readFile } from "node:fs/promises";
+import anylogger from "ulog";
+import { computeSchemaIntegrity, sortObjectKeys } from "@/bundler/integrity.js";
+import { expandPresetSchemas } from "@/bundler/presets/index.js";
+import { createSilentReporter } from "@/bundler/reporter.js";
+import type { BundledSchemaEntry } from "@/bundler/selective-bundler.js";
+import { bundleSchemas, loadConfig } from "@/cli/commands/bundle.js";
+import { createLockfile, diffLockfiles } from "@/cli/lockfile.js";
+import {
+  generateOutput,
+  outputFormatFromPath,
+  type ParsedOutput,
+  parseGeneratedOutput,
+  resolveReproducibleOptions,
+} from "@/cli/output-generator.js";
+import { isSome } from "@/utils/type.js";
+
+const log = anylogger("check");
+
+export interface CheckOptions {
+  config?: string;
+  output?: string; // Bundle to check (default: output from the config, or ./tokenscript-schemas.js)
+  schemasDir?: string; // Comma-separated list of custom schema directories
+  pruneConversions?: boolean;
+  inputTypes?: string; // Comma-separated list of types passed to bundled functions
+}
+
+export interface CheckResult {
+  outputPath: string;
+  upToDate: boolean;
+  /** What differs, one line each, e.g. "~ type:rgb-color: version 0 → 1" */
+  changes: string[];
+}
+
+/**
+ * Header fields that don't affect the bundle contents
+ */
+const IGNORED_HEADER_FIELDS = new Set(["Generated", "Command"]);
+
+/**
+ * Remove the `// Generated: <timestamp>` header line, or the `generatedAt` field of JSON output
+ */
+function stripTimestamp(code: string): string {
+  return code.replace(/^\/\/ Generated: .*\n/m, "").replace(/^ {4}"generatedAt": .*\n/m, "");
+}
+
+/**
+ * Whether a bundle was generated in deterministic mode: schemas sorted by URI and object keys
+ * sorted. Default output keeps the key order of schema.json (name, type, ...), so it never matches.
+ */
+function isDeterministicOutput(parsed: ParsedOutput): boolean {
+  const uris = parsed.schemas.map((entry) => entry.uri);
+  return (
+    uris.every((uri, index) => index === 0 || uris[index - 1] <= uri) &&
+    parsed.schemas.every(
+      (entry) => JSON.stringify(entry.schema) === JSON.stringify(sortObjectKeys(entry.schema)),
+    )
+  );
+}
+
+/**
+ * List the schema-level differences between the bundle on disk and a fresh bundle
+ */
+function diffOutputs(actual: string, expected: string, schemas: BundledSchemaEntry[]): string[] {
+  const parsedActual = parseGeneratedOutput(actual);
+  const parsedExpected = parseGeneratedOutput(expected);
+  if (!parsedActual || !parsedExpected) {
+    return ["~ not a bundle written by the bundle command"];
+  }
+
+  const changes: string[] = [];
+  const fields = new Set([
+    ...Object.keys(parsedActual.header),
+    ...Object.keys(parsedExpected.header),
+  ]);
+  for (const field of fields) {
+    const before = parsedActual.header[field];
+    const after = parsedExpected.header[field];
+    if (!IGNORED_HEADER_FIELDS.has(field) && before !== after) {
+      changes.push(`~ ${field}: ${before ?? "(none)"} → ${after ?? "(none)"}`);
+    }
+  }
+
+  const onDisk = parsedActual.schemas.map((entry) => ({
+    ...entry,
+    integrity: computeSchemaIntegrity(entry.schema),
+  }));
+  changes.push(...diffLockfiles(createLockfile([], onDisk), createLockfile([], schemas)));
+
+  if (changes.length === 0) {
+    changes.push("~ generated code outside the schemas differs");
+  }
+  return changes;
+}
+
+/**
+ * Re-bundle the given schemas in memory and compare the result with the bundle on disk
+ * The `Generated:` timestamp is ignored. Bundles generated in deterministic mode (--no-timestamp
+ * or SOURCE_DATE_EPOCH), detected from their sorted schemas, and bundles checked with
+ * SOURCE_DATE_EPOCH set are compared with deterministic output.
+ */
+export async function checkBundle(
+  schemas: string[],
+  outputPath: string,
+  options: Omit<CheckOptions, "config" | "output"> = {},
+): Promise<CheckResult> {
+  let actual: string;
+  try {
+    actual = await readFile(outputPath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Bundle not found: ${outputPath}. Run bundle first`);
+    }
+    throw error;
+  }
+
+  const reporter = createSilentReporter();
+  const { schemas: bundled, metadata } = await bundleSchemas(
+    expandPresetSchemas(schemas, reporter),
+    options.schemasDir,
+    undefined,
+    {
+      pruneConversions: options.pruneConversions,
+      inputTypes: options.inputTypes
+        ?.split(",")
+        .map((type) => type.trim())
+        .filter((type) => type !== ""),
+      reporter,
+    },
+  );
+
+  // Keep the recorded command, it only documents how the bundle was made
+  const parsed = parseGeneratedOutput(actual);
+  const header = parsed?.header;
+  const { deterministic } = resolveReproducibleOptions();
+  const expected = generateOutput({
+    schemas: bundled,
+    format: outputFormatFromPath(outputPath),
+    metadata,
+    generatedBy: header?.Command,
+    deterministic:
+      deterministic ||
+      (parsed !== null && (header?.Generated === undefined || isDeterministicOutput(parsed))),
+  });
+
+  if (stripTimestamp(actual) === stripTimestamp(expected)) {
+    return { outputPath, upToDate: true, changes: [] };
+  }
+  return { outputPath, upToDate: false, changes: diffOutputs(actual, expected, bundled) };
+}
+
+/**
+ * Format a check result for display
+ */
+export function formatCheckResult(result: CheckResult): string {
+  if (result.upToDate) {
+    return `✓ ${result.outputPath} is up to date`;
+  }
+
+  return [
+    `✗ ${result.outputPath} is out of date:`,
+    ...result.changes.map((change) => `  ${change}`),
+    "",
+    "Run bundle to regenerate it",
+  ].join("\n");
+}
+
+/**
+ * CLI action handler for check command
+ */
+export async function handleCheckCommand(
+  schemas: string[],
+  options: CheckOptions = {},
+): Promise<void> {
+  let configSchemas = schemas;
+  let outputPath = options.output;
+
+  if (isSome(options.config)) {
+    log.info(`Loading config from ${options.config}`);
+    const config = await loadConfig(options.config);
+    configSchemas = config.schemas;
+    outputPath ??= config.output;
+  }
+
+  if (configSchemas.length === 0) {
+    throw new Error("No schemas specified. Provide schemas as arguments or via --config");
+  }
+
+  const result = await checkBundle(configSchemas, outputPath ?? "./tokenscript-schemas.js", {
+    schemasDir: options.schemasDir,
+    pruneConversions: options.pruneConversions,
+    inputTypes: options.inputTypes,
+  });
+
+  console.log(formatCheckResult(result));
+
+  if (!result.upToDate) {
+    throw new Error(`${result.outputPath} is out of date`);
+  }
+}
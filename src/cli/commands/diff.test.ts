@@ -0,0 +1,92 @@
+import { cp, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { diffSchemaSets } from "@/bundler/schema-diff.js";
+import { bundleSchemas } from "./bundle.js";
+import { formatSchemaDiffs, loadSchemaSet } from "./diff.js";
+
+// Mock ulog to silence logs during tests
+vi.mock("ulog", () => {
+  const mockLogger = () => {};
+  mockLogger.error = () => {};
+  mockLogger.warn = () => {};
+  mockLogger.info = () => {};
+  mockLogger.log = () => {};
+  mockLogger.debug = () => {};
+  mockLogger.trace = () => {};
+
+  return {
+    default: () => mockLogger,
+  };
+});
+
+describe("Diff Command", () => {
+  const testDir = join(process.cwd(), "test-diff-command");
+  const schemasDir = join(testDir, "schemas");
+
+  beforeAll(async () => {
+    await mkdir(join(schemasDir, "types"), { recursive: true });
+    await cp(
+      join(process.cwd(), "src/schemas/types/hex-color"),
+      join(schemasDir, "types/hex-color"),
+      { recursive: true },
+    );
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should load bundles, registries and schema directories with the same keys", async () => {
+    const bundlePath = join(testDir, "bundle.js");
+    await writeFile(bundlePath, (await bundleSchemas(["hex-color", "function:invert"])).output);
+    const registryPath = join(testDir, "registry.json");
+    const fromDir = await loadSchemaSet(schemasDir);
+    await writeFile(
+      registryPath,
+      JSON.stringify({
+        version: "0.0.0",
+        types: [...fromDir.values()].map((schema) => ({ ...schema, slug: "hex-color" })),
+        functions: [],
+      }),
+    );
+
+    const fromBundle = await loadSchemaSet(bundlePath);
+    const fromRegistry = await loadSchemaSet(registryPath);
+
+    expect([...fromDir.keys()]).toEqual(["type:hex-color"]);
+    expect([...fromRegistry.keys()]).toEqual(["type:hex-color"]);
+    expect(fromBundle.has("type:hex-color")).toBe(true);
+    expect(fromBundle.has("function:invert")).toBe(true);
+    expect(diffSchemaSets(fromDir, fromRegistry)).toEqual([]);
+  });
+
+  it("should show script changes as unified diffs", async () => {
+    const before = await loadSchemaSet(schemasDir);
+    const schemaPath = join(schemasDir, "types/hex-color/schema.json");
+    const schema = JSON.parse(await readFile(schemaPath, "utf-8"));
+    schema.initializers[0].script.script = "return 1;";
+    await writeFile(schemaPath, JSON.stringify(schema));
+
+    const output = formatSchemaDiffs(diffSchemaSets(before, await loadSchemaSet(schemasDir)));
+
+    expect(output).toContain("~ type:hex-color\n");
+    expect(output).toContain(`--- a/type:hex-color initializer ${schema.initializers[0].keyword}`);
+    expect(output).toContain("\n+return 1;");
+    expect(output).toContain("0 added, 0 removed, 1 changed");
+  });
+
+  it("should fail readably on unknown inputs", async () => {
+    await writeFile(join(testDir, "other.js"), "export default 1;");
+    await writeFile(join(testDir, "other.json"), "{}");
+
+    await expect(loadSchemaSet(join(testDir, "other.js"))).rejects.toThrow(
+      "Not a bundle generated by tokenscript-schemas",
+    );
+    await expect(loadSchemaSet(join(testDir, "other.json"))).rejects.toThrow(
+      "Not a schema registry",
+    );
+    await expect(loadSchemaSet(join(testDir, "missing.js"))).rejects.toThrow("File not found");
+    await expect(loadSchemaSet(testDir)).rejects.toThrow("No schemas found");
+  });
+});
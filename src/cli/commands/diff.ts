@@ -0,0 +1,138 @@
+/**
+ * Diff command - Compare the schemas of two bundles, registries or schema directories
+ */
+
+/// <reference types="../../../types/ulog" />
+
+import { readFile } from "node:fs/promises";
+import anylogger from "ulog";
+import { buildSchemaFromDirectory } from "@/bundler/build-schema.js";
+import { diffSchemaSets, type SchemaDiff } from "@/bundler/schema-diff.js";
+import {
+  DEFAULT_SCHEMA_VERSION,
+  formatSchemaId,
+  listSchemaSlugs,
+  listSchemaVersions,
+  type SchemaKind,
+} from "@/bundler/schema-layers.js";
+import type { BundledRegistry, SchemaSpecification } from "@/bundler/types.js";
+import { isDirectory } from "@/bundler/utils.js";
+import { schemaKeyFromUri } from "@/cli/lockfile.js";
+import { parseGeneratedOutput } from "@/cli/output-generator.js";
+
+const log = anylogger("diff");
+
+/**
+ * Schemas keyed by `type:id` / `function:id`
+ */
+export type SchemaSet = Map<string, SchemaSpecification>;
+
+function schemaKey(type: SchemaKind, slug: string, version = DEFAULT_SCHEMA_VERSION): string {
+  return `${type}:${formatSchemaId(slug, version)}`;
+}
+
+/**
+ * Build every schema of a schemas directory (containing types/ and functions/)
+ */
+async function loadSchemaDirectory(dir: string): Promise<SchemaSet> {
+  const schemas: SchemaSet = new Map();
+
+  for (const type of ["type", "function"] as const) {
+    for (const slug of await listSchemaSlugs(type, [dir])) {
+      for (const { version, schemaDir } of await listSchemaVersions(slug, type, dir)) {
+        log.debug(`Building ${schemaDir}`);
+        schemas.set(schemaKey(type, slug, version), await buildSchemaFromDirectory(schemaDir));
+      }
+    }
+  }
+
+  if (schemas.size === 0) {
+    throw new Error(`No schemas found in ${dir}. Expected types/ or functions/ directories`);
+  }
+  return schemas;
+}
+
+function isRegistry(data: unknown): data is BundledRegistry {
+  const registry = data as BundledRegistry;
+  return Array.isArray(registry?.types) && Array.isArray(registry?.functions);
+}
+
+/**
+ * Load the schemas of a generated bundle (any format), a registry.json or a schemas directory
+ */
+export async function loadSchemaSet(path: string): Promise<SchemaSet> {
+  if (await isDirectory(path)) {
+    return loadSchemaDirectory(path);
+  }
+
+  let content: string;
+  try {
+    content = await readFile(path, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`File not found: ${path}`);
+    }
+    throw error;
+  }
+
+  const parsed = parseGeneratedOutput(content);
+  if (parsed) {
+    return new Map(parsed.schemas.map((entry) => [schemaKeyFromUri(entry.uri), entry.schema]));
+  }
+
+  if (!path.endsWith(".json")) {
+    throw new Error(`Not a bundle generated by tokenscript-schemas: ${path}`);
+  }
+  const data: unknown = JSON.parse(content);
+  if (!isRegistry(data)) {
+    throw new Error(
+      `Not a schema registry or JSON bundle: ${path}. Expected "types" and "functions" arrays`,
+    );
+  }
+  const schemas: SchemaSet = new Map();
+  for (const schema of data.types) {
+    schemas.set(schemaKey("type", schema.slug ?? schema.name, schema.version), schema);
+  }
+  for (const schema of data.functions) {
+    schemas.set(schemaKey("function", schema.slug ?? schema.name, schema.version), schema);
+  }
+  return schemas;
+}
+
+/**
+ * Format schema diffs for display, script changes as unified diffs
+ */
+export function formatSchemaDiffs(diffs: SchemaDiff[]): string {
+  if (diffs.length === 0) {
+    return "No schema changes";
+  }
+
+  const lines: string[] = [];
+  for (const diff of diffs) {
+    const marker = diff.status === "added" ? "+" : diff.status === "removed" ? "-" : "~";
+    lines.push(`${marker} ${diff.key}`);
+    for (const change of diff.changes) {
+      lines.push(`    ${change}`);
+    }
+    for (const script of diff.scripts) {
+      lines.push("", script.diff, "");
+    }
+  }
+
+  const count = (status: SchemaDiff["status"]) =>
+    diffs.filter((diff) => diff.status === status).length;
+  lines.push(
+    "",
+    `${count("added")} added, ${count("removed")} removed, ${count("changed")} changed`,
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * CLI action handler for diff command
+ */
+export async function handleDiffCommand(oldPath: string, newPath: string): Promise<void> {
+  const diffs = diffSchemaSets(await loadSchemaSet(oldPath), await loadSchemaSet(newPath));
+  console.log(formatSchemaDiffs(diffs));
+}
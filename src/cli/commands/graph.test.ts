@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from "vitest";
+import type { DependencyGraph } from "@/bundler/dependency-graph.js";
+import {
+  collectDependencyGraph,
+  formatGraph,
+  formatGraphDot,
+  formatGraphMermaid,
+} from "./graph.js";
+
+// Mock ulog to silence logs during tests
+vi.mock("ulog", () => {
+  const mockLogger = () => {};
+  mockLogger.error = () => {};
+  mockLogger.warn = () => {};
+  mockLogger.info = () => {};
+  mockLogger.log = () => {};
+  mockLogger.debug = () => {};
+  mockLogger.trace = () => {};
+
+  return {
+    default: () => mockLogger,
+  };
+});
+
+const graph: DependencyGraph = {
+  nodes: [
+    { id: "function:invert", type: "function", slug: "invert", version: "0", layer: 0 },
+    { id: "type:rgb-color", type: "type", slug: "rgb-color", version: "0", layer: 0 },
+    { id: "type:lab-color@1", type: "type", slug: "lab-color", version: "1", layer: 0 },
+  ],
+  edges: [
+    { from: "function:invert", to: "type:rgb-color", kind: "requirement" },
+    { from: "type:rgb-color", to: "type:lab-color@1", kind: "conversion", lossless: false },
+    { from: "type:lab-color@1", to: "type:rgb-color", kind: "conversion", lossless: true },
+  ],
+};
+
+describe("Graph Command", () => {
+  it("should format DOT output", () => {
+    expect(formatGraphDot(graph)).toBe(
+      [
+        "digraph schemas {",
+        "  rankdir=LR;",
+        "  node [shape=box];",
+        "",
+        '  "function:invert" [label="function:invert", shape=ellipse];',
+        '  "type:rgb-color" [label="rgb-color"];',
+        '  "type:lab-color@1" [label="lab-color@1"];',
+        "",
+        '  "function:invert" -> "type:rgb-color";',
+        '  "type:rgb-color" -> "type:lab-color@1" [style=dashed, label="lossy"];',
+        '  "type:lab-color@1" -> "type:rgb-color" [style=dashed];',
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  it("should format Mermaid output with safe node ids", () => {
+    expect(formatGraphMermaid(graph)).toBe(
+      [
+        "graph LR",
+        '  function_invert(["function:invert"])',
+        '  type_rgb_color["rgb-color"]',
+        '  type_lab_color_1["lab-color@1"]',
+        "  function_invert --> type_rgb_color",
+        "  type_rgb_color -. lossy .-> type_lab_color_1",
+        "  type_lab_color_1 -.-> type_rgb_color",
+      ].join("\n"),
+    );
+  });
+
+  it("should format JSON output", () => {
+    expect(JSON.parse(formatGraph(graph, "json"))).toEqual(graph);
+  });
+
+  it("should collect requirement and conversion edges", async () => {
+    const collected = await collectDependencyGraph(["function:invert"]);
+
+    expect(collected.nodes.map((node) => node.id).sort()).toEqual([
+      "function:invert",
+      "type:hex-color",
+      "type:rgb-color",
+    ]);
+    expect(collected.edges).toContainEqual({
+      from: "function:invert",
+      to: "type:rgb-color",
+      kind: "requirement",
+    });
+    expect(collected.edges).toContainEqual(
+      expect.objectContaining({ from: "type:hex-color", to: "type:rgb-color", kind: "conversion" }),
+    );
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Graph command - Export the dependency graph of schemas as DOT, Mermaid or JSON
+ */
+
+/// <reference types="../../../types/ulog" />
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import anylogger from "ulog";
+import { buildDependencyGraph, type DependencyGraph } from "@/bundler/dependency-graph.js";
+import { expandPresetSchemas } from "@/bundler/presets/index.js";
+import { formatSchemaId, listSchemaSlugs } from "@/bundler/schema-layers.js";
+import { bundleSelectiveSchemas } from "@/bundler/selective-bundler.js";
+import { resolveSchemaLayers } from "@/cli/commands/bundle.js";
+
+const log = anylogger("graph");
+
+export const GRAPH_FORMATS = ["dot", "mermaid", "json"] as const;
+
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
+export interface GraphOptions {
+  format?: string;
+  output?: string;
+  schemasDir?: string; // Comma-separated list of custom schema directories
+}
+
+function nodeLabel(node: DependencyGraph["nodes"][number]): string {
+  const id = formatSchemaId(node.slug, node.version);
+  return node.type === "function" ? `function:${id}` : id;
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Format a dependency graph as Graphviz DOT
+ * Functions are ellipses, types boxes; conversions are dashed and labelled when lossy
+ */
+export function formatGraphDot(graph: DependencyGraph): string {
+  const lines = ["digraph schemas {", "  rankdir=LR;", "  node [shape=box];", ""];
+
+  for (const node of graph.nodes) {
+    const shape = node.type === "function" ? ", shape=ellipse" : "";
+    lines.push(`  ${quoteDot(node.id)} [label=${quoteDot(nodeLabel(node))}${shape}];`);
+  }
+
+  if (graph.edges.length > 0) {
+    lines.push("");
+  }
+  for (const edge of graph.edges) {
+    const attributes =
+      edge.kind === "requirement"
+        ? ""
+        : edge.lossless
+          ? " [style=dashed]"
+          : ' [style=dashed, label="lossy"]';
+    lines.push(`  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)}${attributes};`);
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Format a dependency graph as a Mermaid flowchart
+ * Requirements are solid arrows, conversions dotted arrows
+ */
+export function formatGraphMermaid(graph: DependencyGraph): string {
+  const mermaidId = (id: string) => id.replace(/[^a-zA-Z0-9_]/g, "_");
+  const lines = ["graph LR"];
+
+  for (const node of graph.nodes) {
+    const label = nodeLabel(node).replace(/"/g, "#quot;");
+    lines.push(
+      node.type === "function"
+        ? `  ${mermaidId(node.id)}(["${label}"])`
+        : `  ${mermaidId(node.id)}["${label}"]`,
+    );
+  }
+
+  for (const edge of graph.edges) {
+    const arrow = edge.kind === "requirement" ? "-->" : edge.lossless ? "-.->" : "-. lossy .->";
+    lines.push(`  ${mermaidId(edge.from)} ${arrow} ${mermaidId(edge.to)}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a dependency graph in the requested format
+ */
+export function formatGraph(graph: DependencyGraph, format: GraphFormat): string {
+  switch (format) {
+    case "dot":
+      return formatGraphDot(graph);
+    case "mermaid":
+      return formatGraphMermaid(graph);
+    case "json":
+      return JSON.stringify(graph, null, 2);
+  }
+}
+
+/**
+ * Collect the dependency graph for the given schemas, or for all schemas when none are given
+ */
+export async function collectDependencyGraph(
+  schemas: string[],
+  schemasDir?: string | string[],
+): Promise<DependencyGraph> {
+  const schemaDirs = resolveSchemaLayers(schemasDir);
+
+  let requested = expandPresetSchemas(schemas);
+  if (requested.length === 0) {
+    requested = [
+      ...(await listSchemaSlugs("type", schemaDirs)).map((slug) => `type:${slug}`),
+      ...(await listSchemaSlugs("function", schemaDirs)).map((slug) => `function:${slug}`),
+    ];
+  }
+
+  log.debug("Collecting dependency graph for:", requested);
+  const result = await bundleSelectiveSchemas({ schemas: requested, schemasDir: schemaDirs });
+
+  return buildDependencyGraph(result.dependencyTree, result.schemas);
+}
+
+/**
+ * CLI action handler for graph command
+ */
+export async function handleGraphCommand(
+  schemas: string[],
+  options: GraphOptions = {},
+): Promise<void> {
+  const format = (options.format ?? "dot") as GraphFormat;
+  if (!GRAPH_FORMATS.includes(format)) {
+    throw new Error(
+      `Unknown graph format '${options.format}'. Expected one of: ${GRAPH_FORMATS.join(", ")}`,
+    );
+  }
+
+  const graph = await collectDependencyGraph(schemas, options.schemasDir);
+  const output = formatGraph(graph, format);
+
+  if (options.output) {
+    await mkdir(dirname(options.output), { recursive: true });
+    await writeFile(options.output, `${output}\n`, "utf-8");
+    log.info(`Output written to: ${options.output}`);
+    console.log(
+      `✓ Graph with ${graph.nodes.length} schemas and ${graph.edges.length} edges → ${options.output}`,
+    );
+  } else {
+    console.log(output);
+  }
+}
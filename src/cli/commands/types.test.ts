@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from "vitest";
+import type { BundledSchemaEntry } from "@/bundler/selective-bundler.js";
+import type { FunctionSpecification } from "@/bundler/types.js";
+import { collectSchemas, generateTypeDeclarations, schemaTypeName } from "./types.js";
+
+// Mock ulog to silence logs during tests
+vi.mock("ulog", () => {
+  const mockLogger = () => {};
+  mockLogger.error = () => {};
+  mockLogger.warn = () => {};
+  mockLogger.info = () => {};
+  mockLogger.log = () => {};
+  mockLogger.debug = () => {};
+  mockLogger.trace = () => {};
+
+  return {
+    default: () => mockLogger,
+  };
+});
+
+const BASE = "https://schema.tokenscript.dev.gcp.tokens.studio/api/v1";
+const script = { type: "/api/v1/core/tokenscript/0/", script: "" };
+
+const oklch: BundledSchemaEntry = {
+  uri: `${BASE}/core/oklch-color/0/`,
+  integrity: "sha256-oklch",
+  schema: {
+    name: "OKLCH",
+    type: "color",
+    schema: {
+      type: "object",
+      properties: {
+        h: { type: "number" },
+        l: { type: "number" },
+        c: { type: "number" },
+        label: { type: "string" },
+      },
+      required: ["l", "c", "h"],
+      order: ["l", "c", "h"],
+    },
+    initializers: [],
+    conversions: [],
+  },
+};
+
+const mix: BundledSchemaEntry = {
+  uri: `${BASE}/function/mix/0/`,
+  integrity: "sha256-mix",
+  schema: {
+    name: "Mix",
+    type: "function",
+    keyword: "mix",
+    input: {
+      type: "object",
+      properties: {
+        color1: { type: "color", description: "First color" },
+        amount: { type: "number", description: "Blend amount (0-1). Default is 0.5" },
+      },
+    },
+    returns: { type: "color", description: "Mixed color" },
+    script,
+  } as BundledSchemaEntry["schema"],
+};
+
+describe("Types Command", () => {
+  it("should name schemas in PascalCase with their non-default version", () => {
+    expect(schemaTypeName(oklch.uri)).toBe("OklchColor");
+    expect(schemaTypeName(mix.uri)).toBe("Mix");
+    expect(schemaTypeName(`${BASE}/function/contrast_ratio/0/`)).toBe("ContrastRatio");
+    expect(schemaTypeName(`${BASE}/core/rgb-color/1.2.0/`)).toBe("RgbColorV1_2_0");
+  });
+
+  it("should declare color channels in order with an optional alpha", () => {
+    const output = generateTypeDeclarations([oklch]);
+
+    expect(output).toContain(
+      [
+        "/** OKLCH */",
+        "export interface OklchColor {",
+        "  l: number;",
+        "  c: number;",
+        "  h: number;",
+        "  label?: string;",
+        "  alpha?: number;",
+        "}",
+      ].join("\n"),
+    );
+    expect(output).toContain("export type Color =\n  | OklchColor;");
+  });
+
+  it("should declare function parameter objects and signatures by keyword", () => {
+    const output = generateTypeDeclarations([mix, oklch]);
+
+    expect(output).toContain(
+      [
+        "export interface MixInput {",
+        "  /** First color */",
+        "  color1: Color;",
+        "  /** Blend amount (0-1). Default is 0.5 */",
+        "  amount: number;",
+        "}",
+      ].join("\n"),
+    );
+    expect(output).toContain(
+      [
+        "export interface FunctionSignatures {",
+        "  /** Mixed color */",
+        "  mix(input: MixInput): Color;",
+        "}",
+      ].join("\n"),
+    );
+
+    const schema = mix.schema as FunctionSpecification;
+    const withRequired: BundledSchemaEntry = {
+      ...mix,
+      schema: { ...schema, input: { type: "object", ...schema.input, required: ["color1"] } },
+    };
+    const optional = generateTypeDeclarations([withRequired]);
+    expect(optional).toContain("  color1: Color;");
+    expect(optional).toContain("  amount?: number;");
+
+    const undeclared: BundledSchemaEntry = {
+      ...mix,
+      schema: { name: "Mix", type: "function", keyword: "mix", script },
+    };
+    const fallback = generateTypeDeclarations([undeclared]);
+    expect(fallback).toContain("export type MixInput = Record<string, unknown>;");
+    expect(fallback).toContain("  mix(input: MixInput): unknown;");
+    expect(fallback).toContain("export type Color = never;");
+  });
+
+  it("should collect the required types of requested functions", async () => {
+    const schemas = await collectSchemas(["function:invert"]);
+    const output = generateTypeDeclarations(schemas);
+
+    expect(output).toContain("  invert(input: InvertInput)");
+    expect(output).toMatch(/export interface RgbColor \{\n(.*\n)*? {2}r: number;/);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Types command - Generate TypeScript declarations for color types and function inputs
+ */
+
+/// <reference types="../../../types/ulog" />
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import anylogger from "ulog";
+import { expandPresetSchemas } from "@/bundler/presets/index.js";
+import { DEFAULT_SCHEMA_VERSION, listSchemaSlugs } from "@/bundler/schema-layers.js";
+import { type BundledSchemaEntry, bundleSelectiveSchemas } from "@/bundler/selective-bundler.js";
+import type { ColorSpecification, FunctionSpecification } from "@/bundler/types.js";
+import { resolveSchemaLayers } from "@/cli/commands/bundle.js";
+import { getVersionInfo } from "@/cli/version-info.js";
+import { parseSchemaUri, semverToString } from "@/utils/schema-uri.js";
+
+const log = anylogger("types");
+
+export interface TypesOptions {
+  output?: string;
+  schemasDir?: string; // Comma-separated list of custom schema directories
+}
+
+interface PropertySpec {
+  type?: string;
+  description?: string;
+  items?: PropertySpec;
+}
+
+/**
+ * TypeScript name of a schema, e.g. "oklch-color" -> "OklchColor", "contrast_ratio" -> "ContrastRatio"
+ * Versions other than the default are appended, e.g. "rgb-color@1.0.0" -> "RgbColorV1_0_0"
+ */
+export function schemaTypeName(uri: string): string {
+  const components = parseSchemaUri(uri);
+  const slug = components?.name ?? uri;
+  const version = semverToString(components?.version ?? undefined);
+
+  const name = slug
+    .split(/[^a-zA-Z0-9]+/)
+    .filter((part) => part !== "")
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+  return version === DEFAULT_SCHEMA_VERSION || version === "latest"
+    ? name
+    : `${name}V${version.replace(/\./g, "_")}`;
+}
+
+/**
+ * TypeScript type of a schema property, e.g. { type: "color" } -> "Color"
+ */
+function propertyType(spec: PropertySpec | undefined): string {
+  switch (spec?.type) {
+    case "number":
+    case "string":
+    case "boolean":
+      return spec.type;
+    case "color":
+      return "Color";
+    case "list":
+    case "array":
+      return spec.items ? `${propertyType(spec.items)}[]` : "unknown[]";
+    default:
+      return "unknown";
+  }
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function docComment(text: string | undefined, indent = ""): string[] {
+  return text ? [`${indent}/** ${text.replace(/\*\//g, "*\\/")} */`] : [];
+}
+
+/**
+ * Interface of a color type: its schema properties in `order`, plus an optional alpha channel
+ */
+function colorInterface(uri: string, schema: ColorSpecification): string[] {
+  const properties = (schema.schema?.properties ?? {}) as Record<string, PropertySpec>;
+  const required = new Set(schema.schema?.required ?? []);
+  const names = [...new Set([...(schema.schema?.order ?? []), ...Object.keys(properties)])];
+
+  const lines = [
+    ...docComment(schema.description ? `${schema.name}: ${schema.description}` : schema.name),
+    `export interface ${schemaTypeName(uri)} {`,
+  ];
+  for (const name of names) {
+    const optional = required.has(name) ? "" : "?";
+    lines.push(...docComment(properties[name]?.description, "  "));
+    lines.push(`  ${propertyKey(name)}${optional}: ${propertyType(properties[name])};`);
+  }
+  if (!names.includes("alpha")) {
+    lines.push("  alpha?: number;");
+  }
+  lines.push("}");
+  return lines;
+}
+
+/**
+ * Parameter object of a function
+ * Only inputs missing from `input.required` are optional. Most function schemas don't list
+ * required inputs yet; without the list every input is declared required.
+ */
+function functionInputType(uri: string, schema: FunctionSpecification): string[] {
+  const properties = (schema.input?.properties ?? {}) as Record<string, PropertySpec>;
+  const required = schema.input?.required;
+  const name = `${schemaTypeName(uri)}Input`;
+  const comment = docComment(
+    `Input of ${schema.keyword}()${schema.description ? `: ${schema.description}` : ""}`,
+  );
+
+  // Inputs the schema doesn't declare
+  if (Object.keys(properties).length === 0) {
+    return [...comment, `export type ${name} = Record<string, unknown>;`];
+  }
+
+  const lines = [...comment, `export interface ${name} {`];
+  for (const [property, spec] of Object.entries(properties)) {
+    const optional = required && !required.includes(property) ? "?" : "";
+    lines.push(...docComment(spec.description, "  "));
+    lines.push(`  ${propertyKey(property)}${optional}: ${propertyType(spec)};`);
+  }
+  lines.push("}");
+  return lines;
+}
+
+/**
+ * Generate TypeScript declarations for bundled schemas
+ * Color types become interfaces of their channels joined in a `Color` union, functions get a
+ * parameter object interface and a signature in `FunctionSignatures`, keyed by keyword
+ */
+export function generateTypeDeclarations(schemas: BundledSchemaEntry[]): string {
+  const byName = (a: BundledSchemaEntry, b: BundledSchemaEntry) => {
+    const [nameA, nameB] = [schemaTypeName(a.uri), schemaTypeName(b.uri)];
+    return nameA < nameB ? -1 : nameA > nameB ? 1 : 0;
+  };
+  const colors = schemas.filter((entry) => entry.schema.type === "color").sort(byName);
+  const functions = schemas.filter((entry) => entry.schema.type === "function").sort(byName);
+
+  const lines = [
+    "// Auto-generated by @tokens-studio/tokenscript-schemas",
+    `// Version: ${getVersionInfo({ gitSha: false }).version}`,
+    "",
+  ];
+
+  for (const entry of colors) {
+    lines.push(...colorInterface(entry.uri, entry.schema as ColorSpecification), "");
+  }
+  lines.push(
+    colors.length === 0
+      ? "export type Color = never;"
+      : ["export type Color =", ...colors.map((entry) => `  | ${schemaTypeName(entry.uri)}`)]
+          .join("\n")
+          .concat(";"),
+  );
+  lines.push("");
+
+  for (const entry of functions) {
+    lines.push(...functionInputType(entry.uri, entry.schema as FunctionSpecification), "");
+  }
+
+  lines.push("export interface FunctionSignatures {");
+  for (const entry of functions) {
+    const schema = entry.schema as FunctionSpecification & { returns?: PropertySpec };
+    const returns = schema.returns ? propertyType(schema.returns) : "unknown";
+    lines.push(...docComment(schema.returns?.description, "  "));
+    lines.push(
+      `  ${propertyKey(schema.keyword)}(input: ${schemaTypeName(entry.uri)}Input): ${returns};`,
+    );
+  }
+  lines.push("}");
+  lines.push("");
+
+  return lines.join("\n");
+}
+
+/**
+ * Collect the given schemas with their dependencies, or all schemas when none are given
+ */
+export async function collectSchemas(
+  schemas: string[],
+  schemasDir?: string | string[],
+): Promise<BundledSchemaEntry[]> {
+  const schemaDirs = resolveSchemaLayers(schemasDir);
+
+  let requested = expandPresetSchemas(schemas);
+  if (requested.length === 0) {
+    requested = [
+      ...(await listSchemaSlugs("type", schemaDirs)).map((slug) => `type:${slug}`),
+      ...(await listSchemaSlugs("function", schemaDirs)).map((slug) => `function:${slug}`),
+    ];
+  }
+
+  log.debug("Generating types for:", requested);
+  const result = await bundleSelectiveSchemas({ schemas: requested, schemasDir: schemaDirs });
+  return result.schemas;
+}
+
+/**
+ * CLI action handler for types command
+ */
+export async function handleTypesCommand(
+  schemas: string[],
+  options: TypesOptions = {},
+): Promise<void> {
+  const collected = await collectSchemas(schemas, options.schemasDir);
+  const output = generateTypeDeclarations(collected);
+
+  if (options.output) {
+    await mkdir(dirname(options.output), { recursive: true });
+    await writeFile(options.output, output, "utf-8");
+    log.info(`Output written to: ${options.output}`);
+
+    const functions = collected.filter((entry) => entry.schema.type === "function").length;
+    console.log(
+      `✓ Types for ${collected.length - functions} color types and ${functions} functions → ${options.output}`,
+    );
+  } else {
+    console.log(output);
+  }
+}
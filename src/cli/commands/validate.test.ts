@@ -0,0 +1,78 @@
+import { execFile } from "node:child_process";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { handleValidateCommand } from "./validate.js";
+
+// Mock ulog to silence logs during tests
+vi.mock("ulog", () => {
+  const mockLogger = () => {};
+  mockLogger.error = () => {};
+  mockLogger.warn = () => {};
+  mockLogger.info = () => {};
+  mockLogger.log = () => {};
+  mockLogger.debug = () => {};
+  mockLogger.trace = () => {};
+
+  return {
+    default: () => mockLogger,
+  };
+});
+
+describe("Validate Command", () => {
+  const testDir = join(process.cwd(), "test-validate-command");
+
+  async function writeSchema(name: string, schema: object) {
+    await mkdir(join(testDir, "types", name), { recursive: true });
+    await writeFile(join(testDir, "types", name, "schema.json"), JSON.stringify(schema));
+  }
+
+  beforeAll(async () => {
+    await writeSchema("broken-color", {
+      name: "Broken",
+      type: "color",
+      initializers: {},
+      conversions: [],
+    });
+    await writeSchema("valid-color", {
+      name: "Valid",
+      type: "color",
+      initializers: [],
+      conversions: [],
+    });
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should report every invalid schema and fail", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await expect(handleValidateCommand([testDir])).rejects.toThrow("1 schema(s) failed validation");
+    expect(log).toHaveBeenCalledWith(
+      [
+        "✗ Invalid schema test-validate-command/types/broken-color:",
+        "  /initializers: Expected an array",
+        "✓ test-validate-command/types/valid-color",
+        "",
+        "✗ 1 of 2 schemas invalid",
+      ].join("\n"),
+    );
+
+    log.mockRestore();
+  });
+
+  it("should exit with a non-zero code from the CLI", async () => {
+    const tsx = join(process.cwd(), "node_modules", ".bin", "tsx");
+    const cli = join(process.cwd(), "src", "cli", "index.ts");
+
+    const error = await promisify(execFile)(tsx, [cli, "validate", testDir]).catch(
+      (reason: { code: number; stdout: string }) => reason,
+    );
+
+    expect(error).toMatchObject({ code: 1 });
+    expect(error.stdout).toContain("/initializers: Expected an array");
+  }, 30000);
+});
@@ -0,0 +1,112 @@
+/**
+ * Validate command - Check schema.json files against the specification shape
+ */
+
+/// <reference types="../../../types/ulog" />
+
+import { existsSync } from "node:fs";
+import { join, relative } from "node:path";
+import anylogger from "ulog";
+import {
+  formatValidationIssues,
+  type SchemaValidationIssue,
+  validateSchemaDirectory,
+} from "@/bundler/schema-validator.js";
+import { getSubdirectories, isDirectory } from "@/bundler/utils.js";
+import { findSchemasDir } from "@/cli/schemas-dir.js";
+
+const log = anylogger("validate");
+
+export interface SchemaDirectoryValidation {
+  schemaDir: string;
+  issues: SchemaValidationIssue[];
+}
+
+/**
+ * Expand a path into the schema directories it contains
+ * Accepts a single schema directory, a versioned schema directory (0/, 1/, ...),
+ * a category directory (types/, functions/) or a schemas root containing both categories
+ */
+async function collectSchemaDirs(dir: string, depth = 0): Promise<string[]> {
+  if (!(await isDirectory(dir))) {
+    throw new Error(`Directory not found: ${dir}`);
+  }
+
+  if (existsSync(join(dir, "schema.json"))) {
+    return [dir];
+  }
+
+  // schemas root -> category -> slug -> version
+  if (depth >= 3) {
+    return [];
+  }
+
+  const schemaDirs: string[] = [];
+  for (const entry of (await getSubdirectories(dir)).sort()) {
+    schemaDirs.push(...(await collectSchemaDirs(join(dir, entry), depth + 1)));
+  }
+
+  return schemaDirs;
+}
+
+/**
+ * Validate every schema directory found under the given paths
+ */
+export async function validateSchemaDirs(dirs: string[]): Promise<SchemaDirectoryValidation[]> {
+  const results: SchemaDirectoryValidation[] = [];
+
+  for (const dir of dirs) {
+    for (const schemaDir of await collectSchemaDirs(dir)) {
+      log.debug(`Validating ${schemaDir}`);
+      results.push({ schemaDir, issues: await validateSchemaDirectory(schemaDir) });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Format validation results for display
+ */
+export function formatValidationResults(results: SchemaDirectoryValidation[]): string {
+  const lines: string[] = [];
+  const cwd = process.cwd();
+
+  for (const result of results) {
+    const label = relative(cwd, result.schemaDir) || result.schemaDir;
+    if (result.issues.length === 0) {
+      lines.push(`✓ ${label}`);
+    } else {
+      lines.push(`✗ ${formatValidationIssues(result.issues, label)}`);
+    }
+  }
+
+  const failed = results.filter((result) => result.issues.length > 0).length;
+  lines.push("");
+  lines.push(
+    failed === 0
+      ? `✓ ${results.length} schemas valid`
+      : `✗ ${failed} of ${results.length} schemas invalid`,
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * CLI action handler for validate command
+ */
+export async function handleValidateCommand(dirs: string[]): Promise<void> {
+  const targets = dirs.length > 0 ? dirs : [findSchemasDir()];
+  const results = await validateSchemaDirs(targets);
+
+  if (results.length === 0) {
+    throw new Error(`No schema.json files found in: ${targets.join(", ")}`);
+  }
+
+  console.log(formatValidationResults(results));
+
+  const failed = results.filter((result) => result.issues.length > 0).length;
+  if (failed > 0) {
+    throw new Error(`${failed} schema(s) failed validation`);
+  }
+}
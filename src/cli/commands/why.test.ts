@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from "vitest";
+import { explainDependency, formatWhyOutput } from "./why.js";
+
+// Mock ulog to silence logs during tests
+vi.mock("ulog", () => {
+  const mockLogger = () => {};
+  mockLogger.error = () => {};
+  mockLogger.warn = () => {};
+  mockLogger.info = () => {};
+  mockLogger.log = () => {};
+  mockLogger.debug = () => {};
+  mockLogger.trace = () => {};
+
+  return {
+    default: () => mockLogger,
+  };
+});
+
+describe("Why Command", () => {
+  it("should explain how a dependency is pulled in", async () => {
+    const result = await explainDependency("hex-color", ["function:invert"]);
+
+    expect(result.found).toBe(true);
+    expect(result.target).toBe("type:hex-color");
+    expect(result.chains).toEqual([
+      [
+        { from: "function:invert", to: "type:rgb-color", kind: "requirement" },
+        { from: "type:rgb-color", to: "type:hex-color", kind: "conversion" },
+      ],
+    ]);
+    expect(formatWhyOutput(result)).toContain(
+      "function:invert ─requires→ type:rgb-color ─converts→ type:hex-color",
+    );
+  });
+
+  it("should tell how many chains the limit left out", () => {
+    const chain = [{ from: "function:invert", to: "type:rgb-color", kind: "requirement" as const }];
+    const result = {
+      target: "type:rgb-color",
+      found: true,
+      requested: ["function:invert"],
+      chains: [chain],
+      total: 3,
+    };
+
+    expect(formatWhyOutput(result)).toContain(
+      "  function:invert ─requires→ type:rgb-color\n  … 2 more chains (raise --limit)",
+    );
+    expect(formatWhyOutput({ ...result, total: 1 })).not.toContain("more chain");
+  });
+
+  it("should report schemas that are not in the bundle", async () => {
+    const result = await explainDependency("lab-color", ["hex-color"]);
+
+    expect(result.found).toBe(false);
+    expect(formatWhyOutput(result)).toBe(
+      "✗ lab-color is not part of the bundle for: type:hex-color",
+    );
+  });
+});
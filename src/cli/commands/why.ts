@@ -0,0 +1,112 @@
+/**
+ * Why command - Explain which requested schemas pull a schema into the bundle
+ */
+
+/// <reference types="../../../types/ulog" />
+
+import anylogger from "ulog";
+import { type DependencyChainEdge, findDependencyChains } from "@/bundler/dependency-graph.js";
+import { expandPresetSchemas } from "@/bundler/presets/index.js";
+import { findDependencyTreeKey } from "@/bundler/schema-dependency-resolver.js";
+import { bundleSelectiveSchemas } from "@/bundler/selective-bundler.js";
+import { resolveSchemaLayers } from "@/cli/commands/bundle.js";
+
+const log = anylogger("why");
+
+export interface WhyOptions {
+  schemasDir?: string; // Comma-separated list of custom schema directories
+  limit?: number;
+}
+
+export interface WhyResult {
+  target: string; // Dependency tree key of the schema, or the request when it isn't bundled
+  found: boolean;
+  requested: string[]; // Dependency tree keys of the requested schemas
+  chains: DependencyChainEdge[][]; // The shortest chains, up to the limit
+  total: number; // Number of chains, including those beyond the limit
+}
+
+/**
+ * Find the dependency chains from the requested schemas to a schema
+ */
+export async function explainDependency(
+  schema: string,
+  requested: string[],
+  options: WhyOptions = {},
+): Promise<WhyResult> {
+  const schemas = expandPresetSchemas(requested);
+  const result = await bundleSelectiveSchemas({
+    schemas,
+    schemasDir: resolveSchemaLayers(options.schemasDir),
+  });
+  const tree = result.dependencyTree;
+
+  const roots = schemas
+    .map((request) => findDependencyTreeKey(tree, request))
+    .filter((key): key is string => key !== null);
+  const target = findDependencyTreeKey(tree, schema);
+  if (target === null) {
+    return { target: schema, found: false, requested: roots, chains: [], total: 0 };
+  }
+
+  log.debug(`Finding chains from ${roots.join(", ")} to ${target}`);
+  return {
+    target,
+    found: true,
+    requested: roots,
+    ...findDependencyChains(tree, roots, target, { limit: options.limit }),
+  };
+}
+
+/**
+ * Format dependency chains for display
+ *
+ * @example
+ * function:mix ─requires→ type:oklch-color ─converts→ type:lab-color ─converts→ type:xyz-d50-color
+ * Chains beyond the limit are counted in a last line
+ */
+export function formatWhyOutput(result: WhyResult): string {
+  if (!result.found) {
+    return `✗ ${result.target} is not part of the bundle for: ${result.requested.join(", ")}`;
+  }
+
+  const lines = [`${result.target} is included because of:`, ""];
+
+  for (const chain of result.chains) {
+    if (chain.length === 0) {
+      lines.push(`  ${result.target} (requested)`);
+      continue;
+    }
+    const parts = [chain[0].from];
+    for (const edge of chain) {
+      parts.push(edge.kind === "requirement" ? "─requires→" : "─converts→", edge.to);
+    }
+    lines.push(`  ${parts.join(" ")}`);
+  }
+  const omitted = result.total - result.chains.length;
+  if (omitted > 0) {
+    lines.push(`  … ${omitted} more chain${omitted === 1 ? "" : "s"} (raise --limit)`);
+  }
+
+  lines.push("");
+  lines.push("─requires→ explicit requirement, ─converts→ pulled in by a conversion");
+
+  return lines.join("\n");
+}
+
+/**
+ * CLI action handler for why command
+ */
+export async function handleWhyCommand(
+  schema: string,
+  requested: string[],
+  options: WhyOptions = {},
+): Promise<void> {
+  if (requested.length === 0) {
+    throw new Error(
+      `No requested schemas specified. Example: tokenscript-schemas why ${schema} preset:css`,
+    );
+  }
+
+  console.log(formatWhyOutput(await explainDependency(schema, requested, options)));
+}
@@ -15,8 +15,14 @@ const { version } = require("../../package.json");
 
 import { type BuildDirOptions, handleBuildCommand } from "./commands/build-dir.js";
 import { type BundleOptions, handleBundleCommand } from "./commands/bundle.js";
+import { type CheckOptions, handleCheckCommand } from "./commands/check.js";
+import { handleDiffCommand } from "./commands/diff.js";
+import { type GraphOptions, handleGraphCommand } from "./commands/graph.js";
 import { handleListCommand, type ListOptions } from "./commands/list.js";
 import { handlePresetsCommand } from "./commands/presets.js";
+import { handleTypesCommand, type TypesOptions } from "./commands/types.js";
+import { handleValidateCommand } from "./commands/validate.js";
+import { handleWhyCommand, type WhyOptions } from "./commands/why.js";
 
 const log = anylogger("cli");
 
@@ -26,9 +32,46 @@ const cli = cac("tokenscript-schemas");
 cli
   .command("bundle [...schemas]", "Bundle schemas into a JS file")
   .option("-c, --config <path>", "Path to config file")
-  .option("-o, --output <path>", "Output file path", { default: "./tokenscript-schemas.js" })
+  .option("-o, --output <path>", "Output file path (default: ./tokenscript-schemas.<format>)")
+  .option(
+    "-f, --format <format>",
+    "Output format: js (with a .d.ts), ts, cjs (with a .d.cts) or json (default: from the output extension, else js)",
+  )
+  .option(
+    "--split <dir>",
+    "Write one ES module per schema and an index.js with loadSchemas(uris) that imports them on demand",
+  )
   .option("-d, --dry-run", "Preview what would be bundled without writing")
-  .option("-s, --schemas-dir <path>", "Custom schema directory (overrides default)")
+  .option(
+    "-s, --schemas-dir <paths>",
+    "Comma-separated custom schema directories, searched in order before the built-in schemas",
+  )
+  .option("--strict", "Fail on unresolved script references, warn about orphaned scripts")
+  .option(
+    "--prune-conversions",
+    "Drop conversions to types outside the bundle instead of bundling those types",
+  )
+  .option(
+    "--input-types <types>",
+    "Comma-separated types passed to bundled functions; bundles the conversion paths they need",
+  )
+  .option("--fail-on-cycle", "Fail when schemas require each other in a cycle")
+  .option(
+    "--reporter <name>",
+    "Progress output: pretty, silent or json (one JSON event per line)",
+    {
+      default: "pretty",
+    },
+  )
+  .option(
+    "--lockfile <path>",
+    "Lockfile path (default: tokenscript-schemas.lock.json next to the output, or in the --split directory)",
+  )
+  .option("--frozen", "Fail if resolved schemas differ from the lockfile instead of updating it")
+  .option(
+    "--no-timestamp",
+    "Leave out the timestamp and sort schemas for reproducible output (see SOURCE_DATE_EPOCH)",
+  )
   .action(async (schemas: string[], options: BundleOptions) => {
     try {
       await handleBundleCommand(schemas, options);
@@ -38,11 +81,35 @@ cli
     }
   });
 
+// Check command
+cli
+  .command("check [...schemas]", "Check that a generated bundle is up to date")
+  .option("-c, --config <path>", "Path to config file")
+  .option(
+    "-o, --output <path>",
+    "Bundle to check (defaults to the config output or ./tokenscript-schemas.js)",
+  )
+  .option(
+    "-s, --schemas-dir <paths>",
+    "Comma-separated custom schema directories, searched in order before the built-in schemas",
+  )
+  .option("--prune-conversions", "The bundle was generated with --prune-conversions")
+  .option("--input-types <types>", "The bundle was generated with --input-types")
+  .action(async (schemas: string[], options: CheckOptions) => {
+    try {
+      await handleCheckCommand(schemas, options);
+    } catch (error) {
+      log.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
 // Build command
 cli
   .command("build <directory>", "Build an individual schema directory")
   .option("-o, --output <path>", "Output file path (defaults to stdout)")
   .option("-p, --pretty", "Pretty print JSON output")
+  .option("--strict", "Fail on unresolved script references, warn about orphaned scripts")
   .action(async (directory: string, options: BuildDirOptions) => {
     try {
       await handleBuildCommand(directory, options);
@@ -52,6 +119,88 @@ cli
     }
   });
 
+// Diff command
+cli
+  .command(
+    "diff <old> <new>",
+    "Compare the schemas of two generated bundles, registry.json files or schema directories",
+  )
+  .action(async (oldPath: string, newPath: string) => {
+    try {
+      await handleDiffCommand(oldPath, newPath);
+    } catch (error) {
+      log.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
+// Graph command
+cli
+  .command("graph [...schemas]", "Export the dependency graph (defaults to all schemas)")
+  .option("-f, --format <format>", "Output format: dot, mermaid or json", { default: "dot" })
+  .option("-o, --output <path>", "Output file path (defaults to stdout)")
+  .option(
+    "-s, --schemas-dir <paths>",
+    "Comma-separated custom schema directories, searched in order before the built-in schemas",
+  )
+  .action(async (schemas: string[], options: GraphOptions) => {
+    try {
+      await handleGraphCommand(schemas, options);
+    } catch (error) {
+      log.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
+// Types command
+cli
+  .command(
+    "types [...schemas]",
+    "Generate TypeScript interfaces for color types and function inputs (defaults to all schemas)",
+  )
+  .option("-o, --output <path>", "Output .d.ts file path (defaults to stdout)")
+  .option(
+    "-s, --schemas-dir <paths>",
+    "Comma-separated custom schema directories, searched in order before the built-in schemas",
+  )
+  .action(async (schemas: string[], options: TypesOptions) => {
+    try {
+      await handleTypesCommand(schemas, options);
+    } catch (error) {
+      log.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
+// Why command
+cli
+  .command("why <schema> [...requested]", "Explain which requested schemas pull in a schema")
+  .option(
+    "-s, --schemas-dir <paths>",
+    "Comma-separated custom schema directories, searched in order before the built-in schemas",
+  )
+  .option("--limit <count>", "Maximum number of chains to print", { default: 50 })
+  .action(async (schema: string, requested: string[], options: WhyOptions) => {
+    try {
+      await handleWhyCommand(schema, requested, options);
+    } catch (error) {
+      log.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
+// Validate command
+cli
+  .command("validate [...directories]", "Validate schema.json files (defaults to built-in schemas)")
+  .action(async (directories: string[]) => {
+    try {
+      await handleValidateCommand(directories);
+    } catch (error) {
+      log.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
 // List command
 cli
   .command("list", "List available schemas")
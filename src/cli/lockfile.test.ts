@@ -0,0 +1,119 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { BundledSchemaEntry } from "@/bundler/selective-bundler.js";
+import type { ColorSpecification, FunctionSpecification } from "@/bundler/types.js";
+import { createLockfile, diffLockfiles, readLockfile, writeLockfile } from "./lockfile.js";
+
+const BASE = "https://schema.tokenscript.dev.gcp.tokens.studio/api/v1";
+
+function typeEntry(slug: string, version: string, integrity: string): BundledSchemaEntry {
+  const schema: ColorSpecification = {
+    name: slug,
+    type: "color",
+    initializers: [],
+    conversions: [],
+  };
+  return { uri: `${BASE}/core/${slug}/${version}/`, schema, integrity };
+}
+
+const invert: BundledSchemaEntry = {
+  uri: `${BASE}/function/invert/0/`,
+  schema: { name: "Invert", type: "function" } as FunctionSpecification,
+  integrity: "sha256-ccc",
+};
+
+describe("Bundle Lockfile", () => {
+  const testDir = join(process.cwd(), "test-bundle-lockfile");
+
+  beforeAll(async () => {
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should record resolved schemas by key with version, uri and integrity", () => {
+    const lockfile = createLockfile(
+      ["function:invert"],
+      [
+        invert,
+        typeEntry("rgb-color", "1", "sha256-aaa"),
+        typeEntry("hex-color", "0", "sha256-bbb"),
+      ],
+    );
+
+    expect(Object.keys(lockfile.schemas)).toEqual([
+      "function:invert",
+      "type:hex-color",
+      "type:rgb-color@1",
+    ]);
+    expect(lockfile.schemas["type:rgb-color@1"]).toEqual({
+      version: "1",
+      uri: `${BASE}/core/rgb-color/1/`,
+      integrity: "sha256-aaa",
+    });
+  });
+
+  it("should list added, removed, re-versioned and changed schemas", () => {
+    const locked = createLockfile(
+      ["rgb-color"],
+      [typeEntry("rgb-color", "0", "sha256-aaa"), typeEntry("hex-color", "0", "sha256-bbb")],
+    );
+    const resolved = createLockfile(
+      ["rgb-color"],
+      [typeEntry("hex-color", "0", "sha256-changed"), typeEntry("oklch-color", "0", "sha256-ddd")],
+    );
+
+    expect(diffLockfiles(locked, locked)).toEqual([]);
+    expect(diffLockfiles(locked, resolved)).toEqual([
+      "~ type:hex-color: content changed (sha256-bbb → sha256-changed)",
+      "+ type:oklch-color (0)",
+      "- type:rgb-color (0)",
+    ]);
+  });
+
+  it("should report changed requested schemas", () => {
+    const locked = createLockfile(["preset:css"], []);
+    const resolved = createLockfile(["preset:css", "function:invert"], []);
+
+    expect(diffLockfiles(locked, resolved)).toEqual([
+      "~ requested: preset:css → preset:css, function:invert",
+    ]);
+  });
+
+  it("should sort schema keys by code unit, independent of the locale", () => {
+    const lockfile = createLockfile(
+      [],
+      ["ab", "a_b", "a-b", "B"].map((slug) => typeEntry(slug, "0", "sha256-aaa")),
+    );
+
+    expect(Object.keys(lockfile.schemas)).toEqual(["type:B", "type:a-b", "type:a_b", "type:ab"]);
+  });
+
+  it("should round-trip through the file system", async () => {
+    const lockfilePath = join(testDir, "tokenscript-schemas.lock.json");
+    const lockfile = createLockfile(["function:invert"], [invert]);
+
+    await writeLockfile(lockfilePath, lockfile);
+
+    expect(await readLockfile(lockfilePath)).toEqual(lockfile);
+  });
+
+  it("should fail readably without a lockfile", async () => {
+    await expect(readLockfile(join(testDir, "missing.lock.json"))).rejects.toThrow(
+      "Lockfile not found",
+    );
+
+    await writeFile(join(testDir, "old.lock.json"), JSON.stringify({ lockfileVersion: 0 }));
+    await expect(readLockfile(join(testDir, "old.lock.json"))).rejects.toThrow(
+      "expected lockfileVersion 1",
+    );
+
+    await writeFile(join(testDir, "corrupt.lock.json"), '{ "lockfileVersion": 1,');
+    await expect(readLockfile(join(testDir, "corrupt.lock.json"))).rejects.toThrow(
+      `Invalid lockfile ${join(testDir, "corrupt.lock.json")}: `,
+    );
+  });
+});
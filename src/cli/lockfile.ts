@@ -0,0 +1,125 @@
+/**
+ * Bundle lockfile - records what a bundle resolved to, so other checkouts can verify it
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { formatSchemaId } from "@/bundler/schema-layers.js";
+import type { BundledSchemaEntry } from "@/bundler/selective-bundler.js";
+import { parseSchemaUri, semverToString } from "@/utils/schema-uri.js";
+
+export const LOCKFILE_NAME = "tokenscript-schemas.lock.json";
+
+const LOCKFILE_VERSION = 1;
+
+export interface LockedSchema {
+  version: string;
+  uri: string;
+  integrity: string; // SHA-256 of the canonical schema JSON
+}
+
+export interface BundleLockfile {
+  lockfileVersion: number;
+  requested: string[]; // Requested schemas as given, before preset expansion
+  /** Resolved schemas keyed by `type:id` / `function:id`, sorted */
+  schemas: Record<string, LockedSchema>;
+}
+
+/**
+ * Key of a bundled schema URI, e.g. "type:rgb-color@1" or "function:invert"
+ * URIs that can't be parsed are used as their own key
+ */
+export function schemaKeyFromUri(uri: string): string {
+  const components = parseSchemaUri(uri);
+  if (!components) {
+    return uri;
+  }
+  const type = components.category === "function" ? "function" : "type";
+  return `${type}:${formatSchemaId(components.name, semverToString(components.version ?? undefined))}`;
+}
+
+/**
+ * Create the lockfile of a bundle
+ */
+export function createLockfile(requested: string[], schemas: BundledSchemaEntry[]): BundleLockfile {
+  const entries: Array<[string, LockedSchema]> = schemas.map((entry) => {
+    const version = semverToString(parseSchemaUri(entry.uri)?.version ?? undefined);
+    return [schemaKeyFromUri(entry.uri), { version, uri: entry.uri, integrity: entry.integrity }];
+  });
+  // Code unit order, so the file is the same in every locale
+  entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return { lockfileVersion: LOCKFILE_VERSION, requested, schemas: Object.fromEntries(entries) };
+}
+
+/**
+ * Read a lockfile, failing with a readable message when it's missing or malformed
+ */
+export async function readLockfile(lockfilePath: string): Promise<BundleLockfile> {
+  let content: string;
+  try {
+    content = await readFile(lockfilePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Lockfile not found: ${lockfilePath}. Run bundle without --frozen first`);
+    }
+    throw error;
+  }
+
+  let lockfile: BundleLockfile;
+  try {
+    lockfile = JSON.parse(content) as BundleLockfile;
+  } catch (error) {
+    throw new Error(`Invalid lockfile ${lockfilePath}: ${(error as Error).message}`);
+  }
+  if (lockfile?.lockfileVersion !== LOCKFILE_VERSION || typeof lockfile.schemas !== "object") {
+    throw new Error(
+      `Unsupported lockfile ${lockfilePath}: expected lockfileVersion ${LOCKFILE_VERSION}`,
+    );
+  }
+  return lockfile;
+}
+
+export async function writeLockfile(lockfilePath: string, lockfile: BundleLockfile): Promise<void> {
+  await writeFile(lockfilePath, `${JSON.stringify(lockfile, null, 2)}\n`, "utf-8");
+}
+
+/**
+ * List the differences between a locked and a freshly resolved bundle, one line each
+ * Returns an empty list when they match
+ *
+ * @example
+ * diffLockfiles(locked, resolved)
+ * // => ["+ type:oklab-color (0)", "~ type:rgb-color: version 0 → 1"]
+ */
+export function diffLockfiles(locked: BundleLockfile, resolved: BundleLockfile): string[] {
+  const diff: string[] = [];
+
+  if (JSON.stringify(locked.requested) !== JSON.stringify(resolved.requested)) {
+    diff.push(`~ requested: ${locked.requested.join(", ")} → ${resolved.requested.join(", ")}`);
+  }
+
+  const keys = [...new Set([...Object.keys(locked.schemas), ...Object.keys(resolved.schemas)])];
+  for (const key of keys.sort()) {
+    const before = locked.schemas[key];
+    const after = resolved.schemas[key];
+    if (!after) {
+      diff.push(`- ${key} (${before.version})`);
+    } else if (!before) {
+      diff.push(`+ ${key} (${after.version})`);
+    } else if (before.version !== after.version) {
+      diff.push(`~ ${key}: version ${before.version} → ${after.version}`);
+    } else if (before.uri !== after.uri) {
+      diff.push(`~ ${key}: uri ${before.uri} → ${after.uri}`);
+    } else if (before.integrity !== after.integrity) {
+      diff.push(
+        `~ ${key}: content changed (${shortHash(before.integrity)} → ${shortHash(after.integrity)})`,
+      );
+    }
+  }
+
+  return diff;
+}
+
+function shortHash(integrity: string): string {
+  return integrity.slice(0, "sha256-".length + 12);
+}
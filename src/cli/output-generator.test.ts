@@ -0,0 +1,353 @@
+import { createHash } from "node:crypto";
+import { fileURLToPath } from "node:url";
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+import { canonicalJson, computeSchemaIntegrity } from "@/bundler/integrity.js";
+import type { BundledSchemaEntry } from "@/bundler/selective-bundler.js";
+import type { ColorSpecification } from "@/bundler/types.js";
+import {
+  declarationPath,
+  generateDeclarations,
+  generateOutput,
+  INTEGRITY_HELPER_SOURCE,
+  outputFormatFromPath,
+  parseGeneratedOutput,
+  resolveReproducibleOptions,
+  schemaModulePath,
+} from "./output-generator.js";
+
+const schema: ColorSpecification = {
+  name: "Hex",
+  type: "color",
+  description: "Hex color ✓",
+  initializers: [],
+  conversions: [],
+};
+
+const entry: BundledSchemaEntry = {
+  uri: "https://example.com/api/v1/core/hex-color/0/",
+  schema,
+  integrity: computeSchemaIntegrity(schema),
+};
+
+/**
+ * Evaluate the helper of the generated module with the given exports
+ */
+function loadHelper(schemas: Array<{ uri: string; schema: unknown }>, hashes: object) {
+  const source = INTEGRITY_HELPER_SOURCE.replace(/^export /gm, "");
+  return new Function(
+    "SCHEMAS",
+    "SCHEMA_HASHES",
+    `${source}\nreturn { sha256Hex, canonicalJson, verifySchemas };`,
+  )(schemas, hashes) as {
+    sha256Hex: (text: string) => string;
+    canonicalJson: (value: unknown) => string;
+    verifySchemas: () => void;
+  };
+}
+
+const invert: BundledSchemaEntry = {
+  uri: "https://example.com/api/v1/function/invert/0/",
+  schema: {
+    name: "Invert",
+    type: "function",
+    keyword: "invert",
+    script: { type: "/api/v1/core/tokenscript/0/", script: "return 1 - color;" },
+  },
+  integrity: "",
+};
+invert.integrity = computeSchemaIntegrity(invert.schema);
+
+class FakeConfig {
+  schemas: Array<{ uri: string; schema: Record<string, unknown> }> = [];
+
+  registerSchemas(schemas: FakeConfig["schemas"]) {
+    this.schemas.push(...schemas);
+    return this;
+  }
+}
+
+/**
+ * Evaluate the makeConfig() of CommonJS output with a stand-in for the interpreter's Config
+ */
+function loadMakeConfig(options: Omit<Parameters<typeof generateOutput>[0], "format">) {
+  const module = { exports: {} as Record<string, unknown> };
+  new Function("require", "module", generateOutput({ ...options, format: "cjs" }))(
+    () => ({ Config: FakeConfig }),
+    module,
+  );
+  return module.exports.makeConfig as (options?: Record<string, unknown>) => FakeConfig;
+}
+
+/**
+ * Type-check generated TypeScript against the installed interpreter
+ */
+function typeCheck(source: string): string[] {
+  // A file next to this one, so the interpreter resolves from node_modules
+  const file = fileURLToPath(new URL("generated-schemas.ts", import.meta.url));
+  const options: ts.CompilerOptions = {
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    types: [],
+  };
+  const host = ts.createCompilerHost(options);
+  const { getSourceFile, fileExists } = host;
+  host.getSourceFile = (name, version) =>
+    name === file ? ts.createSourceFile(name, source, version) : getSourceFile(name, version);
+  host.fileExists = (name) => name === file || fileExists(name);
+
+  const program = ts.createProgram([file], options, host);
+  return ts
+    .getPreEmitDiagnostics(program)
+    .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+}
+
+describe("Output Generator", () => {
+  it("should export the integrity hash of every schema", () => {
+    const output = generateOutput({ schemas: [entry] });
+
+    expect(output).toContain("export const SCHEMA_HASHES = {");
+    expect(output).toContain(`  "${entry.uri}": "${entry.integrity}",`);
+    expect(output).toContain("export function makeConfig(options = {}) {");
+    expect(output).toContain("export function verifySchemas() {");
+  });
+
+  it("should parse the header and schemas back from the output", () => {
+    const output = generateOutput({ schemas: [entry], generatedBy: "tokenscript-schemas bundle" });
+    const parsed = parseGeneratedOutput(output);
+
+    expect(parsed?.header.Command).toBe("tokenscript-schemas bundle");
+    expect(parsed?.header).toHaveProperty("Generated");
+    expect(parsed?.schemas).toEqual([{ uri: entry.uri, schema }]);
+    expect(parseGeneratedOutput("export const SCHEMAS = {};")).toBeNull();
+  });
+
+  it("should generate identical output in deterministic mode", () => {
+    const other: BundledSchemaEntry = {
+      uri: "https://example.com/api/v1/core/abc-color/0/",
+      schema: { conversions: [], initializers: [], type: "color", name: "Abc" },
+      integrity: "sha256-abc",
+    };
+
+    const first = generateOutput({ schemas: [entry, other], deterministic: true, timestamp: null });
+    const second = generateOutput({
+      schemas: [other, entry],
+      deterministic: true,
+      timestamp: null,
+    });
+
+    expect(first).toBe(second);
+    expect(first).not.toContain("// Generated:");
+    expect(first.indexOf(other.uri)).toBeLessThan(first.indexOf(entry.uri));
+    expect(first).toContain('schema: {\n      "conversions": [],\n      "initializers": [],');
+  });
+
+  it("should derive reproducible options from --no-timestamp and SOURCE_DATE_EPOCH", () => {
+    expect(resolveReproducibleOptions(true, {})).toEqual({});
+    expect(resolveReproducibleOptions(false, {})).toEqual({ deterministic: true, timestamp: null });
+    expect(resolveReproducibleOptions(true, { SOURCE_DATE_EPOCH: "1700000000" })).toEqual({
+      deterministic: true,
+      timestamp: new Date("2023-11-14T22:13:20.000Z"),
+    });
+    expect(() => resolveReproducibleOptions(true, { SOURCE_DATE_EPOCH: "yesterday" })).toThrow(
+      "Invalid SOURCE_DATE_EPOCH: yesterday",
+    );
+
+    const output = generateOutput({
+      schemas: [entry],
+      ...resolveReproducibleOptions(true, { SOURCE_DATE_EPOCH: "0" }),
+    });
+    expect(output).toContain("// Generated: 1970-01-01T00:00:00.000Z");
+  });
+
+  it("should type SCHEMAS as a readonly tuple with literal URIs in TypeScript output", () => {
+    const output = generateOutput({ schemas: [entry], format: "ts" });
+
+    expect(output).toContain("export interface ColorSpecification {");
+    expect(output).toContain("export interface FunctionSpecification {");
+    expect(output).toContain(
+      `export const SCHEMAS: readonly [\n  SchemaEntry<"${entry.uri}", ColorSpecification>,\n] = [`,
+    );
+    expect(output).toContain("export const SCHEMA_HASHES: Readonly<Record<SchemaUri, string>> = {");
+    expect(output).toContain("function sha256Hex(text: string): string {");
+    expect(output).toContain(
+      "export function makeConfig(options: MakeConfigOptions = {}): Config {",
+    );
+    expect(parseGeneratedOutput(output)?.schemas).toEqual([{ uri: entry.uri, schema }]);
+    expect(parseGeneratedOutput(generateOutput({ schemas: [], format: "ts" }))?.schemas).toEqual(
+      [],
+    );
+  });
+
+  it("should generate TypeScript output that type-checks", () => {
+    const schemas = [entry, invert];
+
+    expect(typeCheck(generateOutput({ schemas, format: "ts" }))).toEqual([]);
+    const minimal = { verify: false, filter: false, keywords: false };
+    expect(typeCheck(generateOutput({ schemas, format: "ts", helper: minimal }))).toEqual([]);
+    expect(typeCheck(generateOutput({ schemas, format: "ts", helper: false }))).toEqual([]);
+  }, 30000);
+
+  it("should declare the exports of JavaScript output", () => {
+    const declarations = generateDeclarations({ schemas: [entry] });
+
+    expect(declarations).toContain(
+      'import type { Config } from "@tokens-studio/tokenscript-interpreter";',
+    );
+    expect(declarations).toContain(
+      `export declare const SCHEMAS: readonly [\n  SchemaEntry<"${entry.uri}", ColorSpecification>,\n];`,
+    );
+    expect(declarations).toContain(
+      "export declare function makeConfig(options?: MakeConfigOptions): Config;",
+    );
+    expect(declarations).not.toContain(JSON.stringify(schema.description));
+
+    expect(declarationPath("./out/schemas.js")).toBe("./out/schemas.d.ts");
+    expect(declarationPath("schemas.mjs")).toBe("schemas.d.mts");
+  });
+
+  it("should require the interpreter and assign module.exports in CommonJS output", () => {
+    const output = generateOutput({ schemas: [entry], format: "cjs" });
+
+    expect(output).toContain(
+      'const { Config } = require("@tokens-studio/tokenscript-interpreter");',
+    );
+    expect(output).not.toMatch(/^(import|export) /m);
+    expect(output).toContain(
+      "module.exports = { SCHEMAS, SCHEMA_HASHES, verifySchemas, makeConfig };",
+    );
+    expect(parseGeneratedOutput(output)?.schemas).toEqual([{ uri: entry.uri, schema }]);
+    expect(declarationPath("schemas.cjs")).toBe("schemas.d.cts");
+  });
+
+  it("should register filtered schemas with renamed keywords into a given config", () => {
+    const withInitializer = {
+      ...entry,
+      schema: {
+        ...schema,
+        initializers: [{ keyword: "hex", script: { type: "tokenscript", script: "" } }],
+      },
+    };
+    const makeConfig = loadMakeConfig({ schemas: [withInitializer, invert] });
+    const uris = (config: FakeConfig) => config.schemas.map((registered) => registered.uri);
+
+    expect(uris(makeConfig())).toEqual([entry.uri, invert.uri]);
+    expect(uris(makeConfig({ include: ["invert"] }))).toEqual([invert.uri]);
+    expect(uris(makeConfig({ include: [entry.uri], exclude: ["hex-color"] }))).toEqual([]);
+    expect(uris(makeConfig({ exclude: ["hex-color"] }))).toEqual([invert.uri]);
+
+    const prefixed = makeConfig({ keywords: (keyword: string) => `ds_${keyword}` }).schemas;
+    expect(prefixed[0].schema.initializers).toEqual([
+      { keyword: "ds_hex", script: { type: "tokenscript", script: "" } },
+    ]);
+    expect(prefixed[1].schema.keyword).toBe("ds_invert");
+    const renamed = makeConfig({ keywords: { invert: "inverse", constructor: "x" } }).schemas;
+    expect(renamed.map((registered) => registered.schema.keyword)).toEqual([undefined, "inverse"]);
+    expect(invert.schema).toHaveProperty("keyword", "invert");
+
+    const config = new FakeConfig();
+    expect(makeConfig({ config, include: ["invert"] })).toBe(config);
+    expect(config.schemas).toHaveLength(1);
+  });
+
+  it("should leave out disabled helper features", () => {
+    const options = { schemas: [entry] };
+    const minimal = { verify: false, filter: false, keywords: false };
+
+    const output = generateOutput({ ...options, format: "ts", helper: minimal });
+    expect(output).toContain("export interface MakeConfigOptions {\n  config?: Config;");
+    expect(output).not.toMatch(/verifySchemas|matchesSchema|renameKeywords|include\?/);
+    expect(output).toContain("  return (config ?? new Config()).registerSchemas([...SCHEMAS]);");
+    expect(generateOutput({ ...options, format: "cjs", helper: minimal })).toContain(
+      "module.exports = { SCHEMAS, SCHEMA_HASHES, makeConfig };",
+    );
+
+    const withoutHelper = generateOutput({ ...options, format: "ts", helper: false });
+    expect(withoutHelper).not.toMatch(/makeConfig|MakeConfigOptions|import \{ Config \}/);
+    expect(generateDeclarations({ ...options, helper: false })).not.toContain("Config");
+    expect(generateDeclarations({ ...options, helper: { keywords: false } })).not.toContain(
+      "keywords?",
+    );
+  });
+
+  it("should write schemas and metadata without interpreter code in JSON output", () => {
+    const output = generateOutput({
+      schemas: [entry],
+      format: "json",
+      generatedBy: "tokenscript-schemas bundle hex-color",
+      metadata: {
+        requestedSchemas: ["hex-color"],
+        resolvedDependencies: ["hex-color"],
+        generatedAt: "ignored",
+      },
+      timestamp: new Date(0),
+    });
+    const data = JSON.parse(output);
+
+    expect(output).not.toContain("tokenscript-interpreter");
+    expect(data.metadata).toEqual({
+      requestedSchemas: ["hex-color"],
+      resolvedDependencies: ["hex-color"],
+      generatedAt: "1970-01-01T00:00:00.000Z",
+      generatedBy: "tokenscript-schemas bundle hex-color",
+    });
+    expect(data.schemas).toEqual([entry]);
+    expect(parseGeneratedOutput(output)).toEqual({
+      header: {
+        Version: data.version,
+        GitHub: data.githubUrl,
+        Command: "tokenscript-schemas bundle hex-color",
+        Generated: "1970-01-01T00:00:00.000Z",
+      },
+      schemas: [{ uri: entry.uri, schema }],
+    });
+  });
+
+  it("should infer the output format from the file extension", () => {
+    expect(outputFormatFromPath("schemas.js")).toBe("js");
+    expect(outputFormatFromPath("schemas.mjs")).toBe("js");
+    expect(outputFormatFromPath("schemas.ts")).toBe("ts");
+    expect(outputFormatFromPath("schemas.cjs")).toBe("cjs");
+    expect(outputFormatFromPath("schemas.json")).toBe("json");
+  });
+
+  it("should place split output modules by schema type and id", () => {
+    expect(schemaModulePath(entry.uri)).toBe("types/hex-color.js");
+    expect(schemaModulePath("https://example.com/api/v1/core/rgb-color/1.0.0/")).toBe(
+      "types/rgb-color@1.0.0.js",
+    );
+    expect(schemaModulePath("https://example.com/api/v1/function/invert/0/")).toBe(
+      "functions/invert.js",
+    );
+  });
+
+  it("should hash like node:crypto in the generated helper", () => {
+    const { sha256Hex, canonicalJson: helperCanonicalJson } = loadHelper([], {});
+
+    for (const text of ["", "abc", "✓ unicode", "x".repeat(55), "y".repeat(64), "z".repeat(1000)]) {
+      expect(sha256Hex(text)).toBe(createHash("sha256").update(text).digest("hex"));
+    }
+    const value: Record<string, unknown> = { b: [1, { d: null, c: "x" }], a: undefined, e: "ü" };
+    expect(helperCanonicalJson(value)).toBe(canonicalJson(value));
+  });
+
+  it("should accept unmodified schemas and reject edited ones", () => {
+    const hashes = { [entry.uri]: entry.integrity };
+
+    expect(() => loadHelper([{ uri: entry.uri, schema }], hashes).verifySchemas()).not.toThrow();
+    // Key order doesn't matter
+    const reordered: Record<string, unknown> = { conversions: [], initializers: [], ...schema };
+    expect(() =>
+      loadHelper([{ uri: entry.uri, schema: reordered }], hashes).verifySchemas(),
+    ).not.toThrow();
+
+    const edited = { ...schema, name: "Edited" };
+    expect(() => loadHelper([{ uri: entry.uri, schema: edited }], hashes).verifySchemas()).toThrow(
+      `Schema integrity check failed, the bundle was modified after generation: ${entry.uri}`,
+    );
+  });
+});
@@ -1,43 +1,497 @@
 /**
- * Generate JavaScript output for bundled schemas
+ * Generate JavaScript, TypeScript or JSON output for bundled schemas
  */
 
-import type { BundledSchemaEntry } from "@/bundler/selective-bundler.js";
-import { getVersionInfo } from "./version-info.js";
+import { sortObjectKeys } from "@/bundler/integrity.js";
+import type { DependencyNode } from "@/bundler/schema-dependency-resolver.js";
+import type { BundledSchemaEntry, SelectiveBundleResult } from "@/bundler/selective-bundler.js";
+import { schemaKeyFromUri } from "./lockfile.js";
+import { getVersionInfo, type VersionInfo } from "./version-info.js";
+
+export const OUTPUT_FORMATS = ["js", "ts", "cjs", "json"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Features of the generated makeConfig() helper, each included unless set to false
+ * Registering into an existing `config` is always supported
+ */
+export interface HelperOptions {
+  verify?: boolean; // verifySchemas() and makeConfig({ verify })
+  filter?: boolean; // makeConfig({ include, exclude }) by URI, slug or function keyword
+  keywords?: boolean; // makeConfig({ keywords }) renaming function and initializer keywords
+}
 
 export interface OutputGeneratorOptions {
   schemas: BundledSchemaEntry[];
-  includeHelper?: boolean; // Include makeConfig() helper
+  format?: OutputFormat; // ESM (default), TypeScript, CommonJS or JSON data
+  /** Bundle metadata, written by the json format */
+  metadata?: SelectiveBundleResult["metadata"];
+  helper?: HelperOptions | false; // makeConfig() helper features, false leaves it out (default: all)
   generatedBy?: string; // CLI command used to generate
+  /**
+   * Same output for the same schemas: schemas sorted by URI, object keys sorted and no git SHA
+   * in the version
+   */
+  deterministic?: boolean;
+  timestamp?: Date | null; // Time in the `Generated:` line, null leaves it out (default: now)
 }
 
 /**
- * Generate JavaScript code for bundled schemas
+ * Output options of a reproducible build
+ * SOURCE_DATE_EPOCH (seconds since 1970-01-01) fixes the timestamp and `timestamp: false`
+ * (--no-timestamp) leaves it out; either makes the output deterministic
  */
-export function generateOutput(options: OutputGeneratorOptions): string {
-  const { schemas, includeHelper = true } = options;
+export function resolveReproducibleOptions(
+  timestamp = true,
+  env: NodeJS.ProcessEnv = process.env,
+): Pick<OutputGeneratorOptions, "deterministic" | "timestamp"> {
+  if (!timestamp) {
+    return { deterministic: true, timestamp: null };
+  }
 
-  const timestamp = new Date().toISOString();
-  const versionInfo = getVersionInfo();
+  const epoch = env.SOURCE_DATE_EPOCH;
+  if (epoch === undefined || epoch === "") {
+    return {};
+  }
+  if (!/^\d+$/.test(epoch)) {
+    throw new Error(`Invalid SOURCE_DATE_EPOCH: ${epoch}. Expected seconds since 1970-01-01`);
+  }
+  return { deterministic: true, timestamp: new Date(Number(epoch) * 1000) };
+}
 
-  const lines: string[] = [];
+/**
+ * Integrity check included with the makeConfig() helper
+ * Mirrors canonicalJson and computeSchemaIntegrity in @/bundler/integrity.ts; SHA-256 is
+ * implemented inline so makeConfig() stays synchronous and works without node:crypto.
+ * TypeScript output gets parameter and return types, CommonJS output doesn't export.
+ */
+function integrityHelperSource(format: OutputFormat): string {
+  const t = (annotation: string) => (format === "ts" ? annotation : "");
+  const exported = format === "cjs" ? "" : "export ";
+  return `const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
 
-  // Header comment
-  lines.push("// Auto-generated by @tokens-studio/tokenscript-schemas");
-  lines.push(`// Version: ${versionInfo.version}`);
-  lines.push(`// GitHub: ${versionInfo.githubUrl}`);
+function sha256Hex(text${t(": string")})${t(": string")} {
+  const bytes = new TextEncoder().encode(text);
+  const padded = new Uint8Array(((bytes.length + 72) >> 6) << 6);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(padded.length - 4, bytes.length << 3);
+
+  const rotr = (x${t(": number")}, n${t(": number")})${t(": number")} => (x >>> n) | (x << (32 - n));
+  const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      [h, g, f, e, d, c, b, a] = [g, f, e, (d + t1) | 0, c, b, a, (t1 + t2) | 0];
+    }
+    [a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] = (hash[i] + value) | 0;
+    });
+  }
+  return hash.map((value) => (value >>> 0).toString(16).padStart(8, "0")).join("");
+}
+
+function canonicalJson(value${t(": unknown")})${t(": string")} {
+  if (Array.isArray(value)) {
+    return "[" + value.map(canonicalJson).join(",") + "]";
+  }
+  if (value !== null && typeof value === "object") {
+    const record = value${t(" as Record<string, unknown>")};
+    const members = Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => JSON.stringify(key) + ":" + canonicalJson(record[key]));
+    return "{" + members.join(",") + "}";
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+${exported}function verifySchemas()${t(": void")} {
+  const mismatched = SCHEMAS.filter(
+    (entry) => SCHEMA_HASHES[entry.uri] !== "sha256-" + sha256Hex(canonicalJson(entry.schema)),
+  );
+  if (mismatched.length > 0) {
+    throw new Error(
+      "Schema integrity check failed, the bundle was modified after generation: " +
+        mismatched.map((entry) => entry.uri).join(", "),
+    );
+  }
+}`;
+}
+
+export const INTEGRITY_HELPER_SOURCE = integrityHelperSource("js");
+
+/**
+ * Output format of a file by its extension, e.g. "schemas.cjs" -> "cjs" (default: js)
+ */
+export function outputFormatFromPath(path: string): OutputFormat {
+  if (path.endsWith(".ts") && !path.endsWith(".d.ts")) return "ts";
+  if (path.endsWith(".cjs")) return "cjs";
+  if (path.endsWith(".json")) return "json";
+  return "js";
+}
+
+/**
+ * Shapes of the bundled schemas, declared by TypeScript output and .d.ts files
+ * Follows the keys accepted by the schema validator
+ */
+const SCHEMA_TYPES_SOURCE = `export interface ScriptBlock {
+  type: string;
+  script: string;
+}
+
+export interface SpecProperty {
+  type: "number" | "string" | "color";
+  description?: string;
+}
+
+export interface SpecSchema {
+  type: "object";
+  properties: Record<string, SpecProperty>;
+  required?: string[];
+  order?: string[];
+  additionalProperties?: boolean;
+}
+
+export interface Initializer {
+  title?: string;
+  keyword: string;
+  description?: string;
+  schema?: unknown;
+  script: ScriptBlock;
+}
+
+export interface Conversion {
+  source: string;
+  target: string;
+  description?: string;
+  lossless: boolean;
+  script: ScriptBlock;
+}
+
+export interface ColorSpecification {
+  name: string;
+  type: "color";
+  description?: string;
+  schema?: SpecSchema;
+  initializers: Initializer[];
+  conversions: Conversion[];
+  version?: string;
+  slug?: string;
+}
+
+export interface FunctionSpecification {
+  name: string;
+  type: "function";
+  description?: string;
+  keyword: string;
+  input?: { type: "object"; properties?: Record<string, unknown> };
+  script: ScriptBlock;
+  requirements?: string[];
+  returns?: unknown;
+  examples?: unknown;
+  schema?: unknown;
+  version?: string;
+  slug?: string;
+}
+
+export type SchemaSpecification = ColorSpecification | FunctionSpecification;
+
+export interface SchemaEntry<
+  Uri extends string = string,
+  Schema extends SchemaSpecification = SchemaSpecification,
+> {
+  readonly uri: Uri;
+  readonly schema: Schema;
+}
+`;
+
+/**
+ * Helper features to generate, null without a helper
+ */
+function resolveHelperOptions(options: OutputGeneratorOptions): Required<HelperOptions> | null {
+  if (options.helper === false) {
+    return null;
+  }
+  const { verify = true, filter = true, keywords = true } = options.helper ?? {};
+  return { verify, filter, keywords };
+}
+
+/**
+ * Options of the generated makeConfig(), declared by TypeScript output and .d.ts files
+ */
+function makeConfigOptionsSource(helper: Required<HelperOptions>): string {
+  const lines = [
+    "export interface MakeConfigOptions {",
+    "  config?: Config; // Register into this config instead of a new one",
+  ];
+  if (helper.verify) {
+    lines.push("  verify?: boolean; // Throw if a schema was modified after generation");
+  }
+  if (helper.filter) {
+    lines.push("  include?: readonly string[]; // Only these URIs, slugs or function keywords");
+    lines.push("  exclude?: readonly string[]; // All but these URIs, slugs or function keywords");
+  }
+  if (helper.keywords) {
+    lines.push("  // Rename function and initializer keywords by a map or function");
+    lines.push("  keywords?: Readonly<Record<string, string>> | ((keyword: string) => string);");
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * The makeConfig() helper and the functions it uses for the enabled features
+ */
+function makeConfigSource(format: OutputFormat, helper: Required<HelperOptions>): string {
+  const typed = format === "ts";
+  const t = (annotation: string) => (typed ? annotation : "");
+  const exported = format === "cjs" ? "" : "export ";
+  const parts: string[] = [];
+
+  if (helper.verify) {
+    parts.push(integrityHelperSource(format));
+  }
+
+  if (helper.filter) {
+    parts.push(`/**
+ * Whether a schema is named in the list by URI, slug or function keyword
+ */
+function matchesSchema(entry${t(": SchemaEntry")}, names${t(": readonly string[]")})${t(": boolean")} {
+  const parts = entry.uri.split("/");
+  const slug = parts[parts.length - 3];
+  return names.some(
+    (name) =>
+      name === entry.uri ||
+      name === slug ||
+      (entry.schema.type === "function" && name === entry.schema.keyword),
+  );
+}`);
+  }
+
+  if (helper.keywords) {
+    parts.push(`/**
+ * Rename the keyword of a function or the initializer keywords of a color type
+ */
+function renameKeywords(
+  schema${t(": SchemaSpecification")},
+  keywords${t(': NonNullable<MakeConfigOptions["keywords"]>')},
+)${t(": SchemaSpecification")} {
+  const rename = (keyword${t(": string")}) =>
+    typeof keywords === "function"
+      ? keywords(keyword)
+      : Object.prototype.hasOwnProperty.call(keywords, keyword)
+        ? keywords[keyword]
+        : keyword;
+
+  if (schema.type === "function") {
+    return { ...schema, keyword: rename(schema.keyword) };
+  }
+  return {
+    ...schema,
+    initializers: schema.initializers.map((initializer) => ({
+      ...initializer,
+      keyword: rename(initializer.keyword),
+    })),
+  };
+}`);
+  }
+
+  const options = [
+    "config",
+    ...(helper.verify ? ["verify"] : []),
+    ...(helper.filter ? ["include", "exclude"] : []),
+    ...(helper.keywords ? ["keywords"] : []),
+  ];
+  const lines = [
+    typed
+      ? "export function makeConfig(options: MakeConfigOptions = {}): Config {"
+      : `${exported}function makeConfig(options = {}) {`,
+    `  const { ${options.join(", ")} } = options;`,
+  ];
+  if (helper.verify) {
+    lines.push("  if (verify) {", "    verifySchemas();", "  }");
+  }
+  if (helper.filter || helper.keywords) {
+    lines.push(`  let schemas${t(": readonly SchemaEntry[]")} = SCHEMAS;`);
+    if (helper.filter) {
+      lines.push("  if (include) {");
+      lines.push("    schemas = schemas.filter((entry) => matchesSchema(entry, include));");
+      lines.push("  }");
+      lines.push("  if (exclude) {");
+      lines.push("    schemas = schemas.filter((entry) => !matchesSchema(entry, exclude));");
+      lines.push("  }");
+    }
+    if (helper.keywords) {
+      lines.push("  if (keywords) {");
+      lines.push("    schemas = schemas.map((entry) => ({");
+      lines.push("      uri: entry.uri,");
+      lines.push("      schema: renameKeywords(entry.schema, keywords),");
+      lines.push("    }));");
+      lines.push("  }");
+    }
+    // Copied, as registerSchemas() takes a mutable array
+    lines.push("  return (config ?? new Config()).registerSchemas([...schemas]);");
+  } else {
+    lines.push("  return (config ?? new Config()).registerSchemas([...SCHEMAS]);");
+  }
+  lines.push("}");
+  parts.push(lines.join("\n"));
+
+  return parts.join("\n\n");
+}
+
+/**
+ * Header comment of generated files
+ */
+function headerLines(
+  options: OutputGeneratorOptions,
+  versionInfo: VersionInfo,
+  timestamp: Date | null,
+): string[] {
+  const lines = [
+    "// Auto-generated by @tokens-studio/tokenscript-schemas",
+    `// Version: ${versionInfo.version}`,
+    `// GitHub: ${versionInfo.githubUrl}`,
+  ];
   if (options.generatedBy) {
     lines.push(`// Command: ${options.generatedBy}`);
   }
-  lines.push(`// Generated: ${timestamp}`);
+  if (timestamp) {
+    lines.push(`// Generated: ${timestamp.toISOString()}`);
+  }
+  return lines;
+}
+
+/**
+ * Schemas in output order: sorted by URI with sorted keys in deterministic mode
+ */
+function orderSchemas(options: OutputGeneratorOptions): BundledSchemaEntry[] {
+  if (!options.deterministic) {
+    return options.schemas;
+  }
+  return [...options.schemas]
+    .sort((a, b) => (a.uri < b.uri ? -1 : a.uri > b.uri ? 1 : 0))
+    .map((entry) => ({ ...entry, schema: sortObjectKeys(entry.schema) }));
+}
+
+/**
+ * Readonly tuple type of SCHEMAS, one entry per schema with its literal URI
+ */
+function schemasTupleType(schemas: BundledSchemaEntry[]): string[] {
+  if (schemas.length === 0) {
+    return ["readonly []"];
+  }
+  return [
+    "readonly [",
+    ...schemas.map((entry) => {
+      const shape =
+        entry.schema.type === "function" ? "FunctionSpecification" : "ColorSpecification";
+      return `  SchemaEntry<${JSON.stringify(entry.uri)}, ${shape}>,`;
+    }),
+    "]",
+  ];
+}
+
+/**
+ * JSON output: the bundled schemas and metadata, without interpreter code
+ */
+function generateJsonOutput(
+  options: OutputGeneratorOptions,
+  schemas: BundledSchemaEntry[],
+  versionInfo: VersionInfo,
+  timestamp: Date | null,
+): string {
+  const resolvedDependencies = options.metadata?.resolvedDependencies ?? [];
+  const metadata = {
+    requestedSchemas: options.metadata?.requestedSchemas ?? [],
+    resolvedDependencies: options.deterministic
+      ? [...resolvedDependencies].sort()
+      : resolvedDependencies,
+    generatedAt: timestamp?.toISOString(),
+    generatedBy: options.generatedBy,
+  };
+
+  const data = {
+    version: versionInfo.version,
+    githubUrl: versionInfo.githubUrl,
+    metadata,
+    schemas: schemas.map(({ uri, schema, integrity }) => ({ uri, schema, integrity })),
+  };
+  return `${JSON.stringify(data, null, 2)}\n`;
+}
+
+/**
+ * Generate JavaScript, TypeScript or JSON output for bundled schemas
+ */
+export function generateOutput(options: OutputGeneratorOptions): string {
+  const { deterministic = false, timestamp = new Date() } = options;
+  const helper = resolveHelperOptions(options);
+  const format = options.format ?? "js";
+  const typed = format === "ts";
+  const exported = format === "cjs" ? "" : "export ";
+
+  const schemas = orderSchemas(options);
+  const versionInfo = getVersionInfo({ gitSha: !deterministic });
+
+  if (format === "json") {
+    return generateJsonOutput(options, schemas, versionInfo, timestamp);
+  }
+
+  const lines: string[] = [];
+
+  // Header comment
+  lines.push(...headerLines(options, versionInfo, timestamp));
   lines.push("");
 
   // Import statement
-  lines.push('import { Config } from "@tokens-studio/tokenscript-interpreter";');
-  lines.push("");
+  if (format === "cjs") {
+    lines.push('const { Config } = require("@tokens-studio/tokenscript-interpreter");');
+    lines.push("");
+  } else if (!typed || helper) {
+    lines.push('import { Config } from "@tokens-studio/tokenscript-interpreter";');
+    lines.push("");
+  }
+
+  if (typed) {
+    lines.push(SCHEMA_TYPES_SOURCE);
+    lines.push("");
+    if (helper) {
+      lines.push(makeConfigOptionsSource(helper));
+      lines.push("");
+    }
+  }
 
   // SCHEMAS export
-  lines.push("export const SCHEMAS = [");
+  if (typed) {
+    const tupleType = schemasTupleType(schemas);
+    tupleType[0] = `export const SCHEMAS: ${tupleType[0]}`;
+    tupleType[tupleType.length - 1] += " = [";
+    lines.push(...tupleType);
+  } else {
+    lines.push(`${exported}const SCHEMAS = [`);
+  }
   for (const entry of schemas) {
     // Format each schema entry - we need to serialize both uri and schema
     const schemaJson = JSON.stringify(entry.schema, null, 2);
@@ -57,13 +511,323 @@ export function generateOutput(options: OutputGeneratorOptions): string {
   lines.push("];");
   lines.push("");
 
+  if (typed) {
+    lines.push('export type SchemaUri = (typeof SCHEMAS)[number]["uri"];');
+    lines.push("");
+  }
+
+  // SHA-256 of each canonical schema, by URI
+  lines.push(
+    typed
+      ? "export const SCHEMA_HASHES: Readonly<Record<SchemaUri, string>> = {"
+      : `${exported}const SCHEMA_HASHES = {`,
+  );
+  for (const entry of schemas) {
+    lines.push(`  ${JSON.stringify(entry.uri)}: ${JSON.stringify(entry.integrity)},`);
+  }
+  lines.push("};");
+  lines.push("");
+
   // Helper function
-  if (includeHelper) {
-    lines.push("export function makeConfig() {");
-    lines.push("  return new Config().registerSchemas(SCHEMAS);");
-    lines.push("}");
+  if (helper) {
+    lines.push(makeConfigSource(format, helper));
+    lines.push("");
+  }
+
+  if (format === "cjs") {
+    const names = ["SCHEMAS", "SCHEMA_HASHES"];
+    if (helper?.verify) {
+      names.push("verifySchemas");
+    }
+    if (helper) {
+      names.push("makeConfig");
+    }
+    lines.push(`module.exports = { ${names.join(", ")} };`);
     lines.push("");
   }
 
   return lines.join("\n");
 }
+
+/**
+ * Generate the TypeScript declarations (.d.ts) of JavaScript or CommonJS output
+ */
+export function generateDeclarations(options: OutputGeneratorOptions): string {
+  const { deterministic = false, timestamp = new Date() } = options;
+  const helper = resolveHelperOptions(options);
+
+  const schemas = orderSchemas(options);
+  const versionInfo = getVersionInfo({ gitSha: !deterministic });
+
+  const lines: string[] = [...headerLines(options, versionInfo, timestamp), ""];
+  if (helper) {
+    lines.push('import type { Config } from "@tokens-studio/tokenscript-interpreter";');
+    lines.push("");
+  }
+
+  lines.push(SCHEMA_TYPES_SOURCE);
+  lines.push("");
+  if (helper) {
+    lines.push(makeConfigOptionsSource(helper));
+    lines.push("");
+  }
+
+  const tupleType = schemasTupleType(schemas);
+  tupleType[0] = `export declare const SCHEMAS: ${tupleType[0]}`;
+  tupleType[tupleType.length - 1] += ";";
+  lines.push(...tupleType);
+  lines.push("");
+  lines.push('export type SchemaUri = (typeof SCHEMAS)[number]["uri"];');
+  lines.push("");
+  lines.push("export declare const SCHEMA_HASHES: Readonly<Record<SchemaUri, string>>;");
+  lines.push("");
+
+  if (helper?.verify) {
+    lines.push("export declare function verifySchemas(): void;");
+    lines.push("");
+  }
+  if (helper) {
+    lines.push("export declare function makeConfig(options?: MakeConfigOptions): Config;");
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+export interface SplitOutputFile {
+  path: string; // Relative to the split output directory, e.g. "types/rgb-color.js"
+  content: string;
+}
+
+export interface SplitOutputOptions extends Omit<OutputGeneratorOptions, "format" | "metadata"> {
+  /** Dependency tree of the bundle, consulted so a schema loads together with its dependencies */
+  dependencyTree: Map<string, DependencyNode>;
+}
+
+/**
+ * Module of a bundled schema in split output, e.g. "types/rgb-color.js" or "functions/invert.js"
+ */
+export function schemaModulePath(uri: string): string {
+  const [type, id] = schemaKeyFromUri(uri).split(":");
+  return `${type === "function" ? "functions" : "types"}/${id}.js`;
+}
+
+/**
+ * URIs of the bundled schemas each bundled schema depends on, by URI
+ */
+function schemaDependencies(
+  schemas: BundledSchemaEntry[],
+  tree: Map<string, DependencyNode>,
+): Map<string, string[]> {
+  const uriByKey = new Map(schemas.map((entry) => [schemaKeyFromUri(entry.uri), entry.uri]));
+
+  const dependencies = new Map<string, string[]>();
+  for (const entry of schemas) {
+    const node = tree.get(schemaKeyFromUri(entry.uri));
+    const uris = (node?.dependencies ?? [])
+      .map((key) => uriByKey.get(key))
+      .filter((uri): uri is string => uri !== undefined && uri !== entry.uri);
+    if (uris.length > 0) {
+      dependencies.set(entry.uri, [...new Set(uris)].sort());
+    }
+  }
+  return dependencies;
+}
+
+/**
+ * Generate code-split output: one ES module per schema and an index loading them on demand
+ * The index exports SCHEMA_URIS, loadSchemas(uris), which also loads the schemas the requested
+ * ones depend on, an async makeConfig(uris) and its declarations (index.d.ts)
+ */
+export function generateSplitOutput(options: SplitOutputOptions): SplitOutputFile[] {
+  const { deterministic = false, timestamp = new Date() } = options;
+
+  const schemas = orderSchemas(options);
+  const versionInfo = getVersionInfo({ gitSha: !deterministic });
+  const dependencies = schemaDependencies(schemas, options.dependencyTree);
+
+  // Schema modules have no header, so unchanged schemas keep unchanged files
+  const files: SplitOutputFile[] = schemas.map((entry) => ({
+    path: schemaModulePath(entry.uri),
+    content: [
+      "// Auto-generated by @tokens-studio/tokenscript-schemas",
+      "",
+      `export const uri = ${JSON.stringify(entry.uri)};`,
+      "",
+      `export const schema = ${JSON.stringify(entry.schema, null, 2)};`,
+      "",
+    ].join("\n"),
+  }));
+
+  const index: string[] = [...headerLines(options, versionInfo, timestamp), ""];
+  index.push('import { Config } from "@tokens-studio/tokenscript-interpreter";');
+  index.push("");
+  index.push("// Lazy loader of each schema module, by URI");
+  index.push("const LOADERS = {");
+  for (const entry of schemas) {
+    index.push(
+      `  ${JSON.stringify(entry.uri)}: () => import(${JSON.stringify(`./${schemaModulePath(entry.uri)}`)}),`,
+    );
+  }
+  index.push("};");
+  index.push("");
+  index.push("// Schemas loaded together with a schema, by URI");
+  index.push("const DEPENDENCIES = {");
+  for (const [uri, uris] of dependencies) {
+    index.push(`  ${JSON.stringify(uri)}: [`);
+    for (const dependency of uris) {
+      index.push(`    ${JSON.stringify(dependency)},`);
+    }
+    index.push("  ],");
+  }
+  index.push("};");
+  index.push("");
+  index.push("export const SCHEMA_URIS = Object.keys(LOADERS);");
+  index.push("");
+  index.push(`/**
+ * Load schemas and the schemas they depend on, in SCHEMA_URIS order
+ */
+export async function loadSchemas(uris) {
+  const required = new Set();
+  const pending = [...uris];
+  while (pending.length > 0) {
+    const uri = pending.pop();
+    if (required.has(uri)) continue;
+    if (!Object.prototype.hasOwnProperty.call(LOADERS, uri)) {
+      throw new Error(\`Unknown schema: \${uri}\`);
+    }
+    required.add(uri);
+    pending.push(...(DEPENDENCIES[uri] ?? []));
+  }
+
+  const loaded = SCHEMA_URIS.filter((uri) => required.has(uri));
+  const modules = await Promise.all(loaded.map((uri) => LOADERS[uri]()));
+  return modules.map(({ uri, schema }) => ({ uri, schema }));
+}
+
+export async function makeConfig(uris = SCHEMA_URIS) {
+  return new Config().registerSchemas(await loadSchemas(uris));
+}
+`);
+  files.push({ path: "index.js", content: index.join("\n") });
+
+  const declarations: string[] = [...headerLines(options, versionInfo, timestamp), ""];
+  declarations.push('import type { Config } from "@tokens-studio/tokenscript-interpreter";');
+  declarations.push("");
+  declarations.push(SCHEMA_TYPES_SOURCE);
+  declarations.push("");
+  declarations.push(
+    schemas.length === 0
+      ? "export type SchemaUri = never;"
+      : ["export type SchemaUri =", ...schemas.map((entry) => `  | ${JSON.stringify(entry.uri)}`)]
+          .join("\n")
+          .concat(";"),
+  );
+  declarations.push("");
+  declarations.push("export declare const SCHEMA_URIS: readonly SchemaUri[];");
+  declarations.push("");
+  declarations.push(
+    "export declare function loadSchemas(uris: readonly SchemaUri[]): Promise<SchemaEntry<SchemaUri>[]>;",
+  );
+  declarations.push("");
+  declarations.push(
+    "export declare function makeConfig(uris?: readonly SchemaUri[]): Promise<Config>;",
+  );
+  declarations.push("");
+  files.push({ path: "index.d.ts", content: declarations.join("\n") });
+
+  return files;
+}
+
+/**
+ * Path of the declaration file next to JavaScript output, e.g. "schemas.js" -> "schemas.d.ts"
+ */
+export function declarationPath(outputPath: string): string {
+  if (outputPath.endsWith(".mjs")) {
+    return `${outputPath.slice(0, -".mjs".length)}.d.mts`;
+  }
+  if (outputPath.endsWith(".cjs")) {
+    return `${outputPath.slice(0, -".cjs".length)}.d.cts`;
+  }
+  return `${outputPath.replace(/\.js$/, "")}.d.ts`;
+}
+
+export interface ParsedOutput {
+  /** Header comment fields, e.g. { Version: "0.3.4", Command: "npx ... bundle preset:css" } */
+  header: Record<string, string>;
+  schemas: Array<{ uri: string; schema: BundledSchemaEntry["schema"] }>;
+}
+
+/**
+ * Read the header and schemas back from JSON output
+ */
+function parseJsonOutput(code: string): ParsedOutput | null {
+  try {
+    const data = JSON.parse(code);
+    if (!Array.isArray(data?.schemas)) {
+      return null;
+    }
+    const fields = {
+      Version: data.version,
+      GitHub: data.githubUrl,
+      Command: data.metadata?.generatedBy,
+      Generated: data.metadata?.generatedAt,
+    };
+    return {
+      header: Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)),
+      schemas: data.schemas.map(({ uri, schema }: ParsedOutput["schemas"][number]) => ({
+        uri,
+        schema,
+      })),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the header and schemas back from output written by generateOutput
+ * Only understands the layouts generateOutput writes; returns null for anything else.
+ */
+export function parseGeneratedOutput(code: string): ParsedOutput | null {
+  if (code.trimStart().startsWith("{")) {
+    return parseJsonOutput(code);
+  }
+
+  const lines = code.split("\n");
+  const header: Record<string, string> = {};
+  for (const line of lines) {
+    if (!line.startsWith("//")) break;
+    const match = /^\/\/ ([A-Za-z]+): (.*)$/.exec(line);
+    if (match) {
+      header[match[1]] = match[2];
+    }
+  }
+
+  // JavaScript output starts the array right away, TypeScript output after the tuple type
+  const start = lines.findIndex(
+    (line) => line === "] = [" || /^(export )?const SCHEMAS(: readonly \[\])? = \[$/.test(line),
+  );
+  if (start === -1) {
+    return null;
+  }
+
+  const schemas: ParsedOutput["schemas"] = [];
+  try {
+    let index = start + 1;
+    while (lines[index] === "  {") {
+      const uri = JSON.parse(lines[index + 1].replace(/^ {4}uri: /, "").replace(/,$/, ""));
+      const end = lines.indexOf("  },", index);
+      const schemaCode = lines
+        .slice(index + 2, end)
+        .join("\n")
+        .replace(/^ {4}schema: /, "");
+      schemas.push({ uri, schema: JSON.parse(schemaCode) });
+      index = end + 1;
+    }
+  } catch {
+    return null;
+  }
+
+  return { header, schemas };
+}
@@ -0,0 +1,33 @@
+/**
+ * Locate the built-in schemas directory
+ */
+
+import { existsSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+/**
+ * Find the schemas directory - works for both development/tests and installed package
+ */
+export function findSchemasDir(): string {
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = dirname(__filename);
+
+  // From compiled dist/cli/index.js (bundled) to src/schemas
+  const fromDist = join(__dirname, "../../src/schemas");
+
+  // From source src/cli/schemas-dir.ts to src/schemas (for tests/dev)
+  const fromSource = join(__dirname, "../schemas");
+
+  // Check source first (for development), then dist (for installed package)
+  if (existsSync(fromSource)) {
+    return fromSource;
+  }
+
+  if (existsSync(fromDist)) {
+    return fromDist;
+  }
+
+  // Default to source structure (for development)
+  return fromSource;
+}
@@ -64,8 +64,10 @@ function getPackageVersion(): string {
 
 /**
  * Get version information for the bundle
+ * Without `gitSha`, local runs report "local" so the version doesn't change with every commit
  */
-export function getVersionInfo(): VersionInfo {
+export function getVersionInfo(options: { gitSha?: boolean } = {}): VersionInfo {
+  const { gitSha = true } = options;
   const githubUrl = "https://github.com/tokens-studio/tokenscript-schemas";
   const packageVersion = getPackageVersion();
 
@@ -78,7 +80,7 @@ export function getVersionInfo(): VersionInfo {
     isLocal = false;
   } else {
     // Running locally (via tsx) - use git SHA
-    const sha = getGitSha();
+    const sha = gitSha ? getGitSha() : null;
     version = sha ? `local-${sha}` : "local";
     isLocal = true;
   }
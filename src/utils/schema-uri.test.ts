@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareSemver,
+  parseSemverFromString,
+  type SemanticVersion,
+  satisfiesVersion,
+  selectBestVersion,
+} from "./schema-uri.js";
+
+function semver(version: string): SemanticVersion {
+  return parseSemverFromString(version) as SemanticVersion;
+}
+
+describe("Schema URI version helpers", () => {
+  describe("compareSemver", () => {
+    it("should compare versions numerically", () => {
+      expect(compareSemver(semver("1.2"), semver("1.10"))).toBeLessThan(0);
+      expect(compareSemver(semver("2"), semver("1.9.9"))).toBeGreaterThan(0);
+    });
+
+    it("should treat missing parts as 0", () => {
+      expect(compareSemver(semver("1"), semver("1.0.0"))).toBe(0);
+    });
+  });
+
+  describe("satisfiesVersion", () => {
+    it.each([
+      ["1.4.2", "latest", true],
+      ["1.4.2", "*", true],
+      ["1.4.2", "1", true],
+      ["2.0.0", "1", false],
+      ["1.4.2", "1.4", true],
+      ["1.5.0", "1.4", false],
+      ["1.4.2", "1.4.2", true],
+      ["1.4.3", "1.4.2", false],
+      ["1.9.0", "^1.4", true],
+      ["1.3.0", "^1.4", false],
+      ["2.0.0", "^1.4", false],
+      ["0.2.5", "^0.2", true],
+      ["0.3.0", "^0.2", false],
+      ["0.0.3", "^0.0.3", true],
+      ["0.0.4", "^0.0.3", false],
+      ["1.4.9", "~1.4.2", true],
+      ["1.5.0", "~1.4.2", false],
+      ["1.9.0", "~1", true],
+      ["3.0.0", ">=1.2", true],
+      ["1.1.9", ">=1.2", false],
+      ["1.2.0", ">1.2", false],
+      ["1.2.0", "<=1.2", true],
+      ["1.2.0", "<1.2", false],
+    ])("%s satisfies %s: %s", (version, range, expected) => {
+      expect(satisfiesVersion(semver(version), range)).toBe(expected);
+    });
+
+    it("should reject unparseable ranges", () => {
+      expect(satisfiesVersion(semver("1.0.0"), "^one")).toBe(false);
+    });
+  });
+
+  describe("selectBestVersion", () => {
+    const available = ["0", "1", "1.2.0", "1.10.0", "2.0.0", "next"];
+
+    it("should pick the highest version by default", () => {
+      expect(selectBestVersion(available)).toBe("2.0.0");
+    });
+
+    it("should pick the highest version matching a partial version", () => {
+      expect(selectBestVersion(available, "1")).toBe("1.10.0");
+    });
+
+    it("should pick the highest version matching a range", () => {
+      expect(selectBestVersion(available, "<1.5")).toBe("1.2.0");
+      expect(selectBestVersion(available, "~1.2")).toBe("1.2.0");
+    });
+
+    it("should return null when nothing matches", () => {
+      expect(selectBestVersion(available, "^3")).toBeNull();
+      expect(selectBestVersion([], "latest")).toBeNull();
+    });
+  });
+});
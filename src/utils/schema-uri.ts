@@ -72,6 +72,110 @@ export function semverToString(version: SchemaVersion | undefined): string {
   return "latest";
 }
 
+function versionParts(version: SemanticVersion): [number, number, number] {
+  return [
+    version.major,
+    "minor" in version ? version.minor : 0,
+    "patch" in version ? version.patch : 0,
+  ];
+}
+
+/**
+ * Compare two versions, treating missing minor/patch parts as 0
+ * Returns a negative number if a < b, 0 if equal, a positive number if a > b
+ *
+ * @example
+ * compareSemver({ major: 1, minor: 2 }, { major: 1, minor: 10 }) // => negative
+ * compareSemver({ major: 1 }, { major: 1, minor: 0, patch: 0 }) // => 0
+ */
+export function compareSemver(a: SemanticVersion, b: SemanticVersion): number {
+  const [pa, pb] = [versionParts(a), versionParts(b)];
+  for (let i = 0; i < pa.length; i++) {
+    if (pa[i] !== pb[i]) return pa[i] - pb[i];
+  }
+  return 0;
+}
+
+/**
+ * Check whether a version satisfies a range
+ *
+ * Supported ranges:
+ * - `latest` or `*` - any version
+ * - `1`, `1.2` - partial versions match any version with that prefix (1.x, 1.2.x)
+ * - `1.2.3` - exactly that version
+ * - `^1.2.3` - compatible versions: same major (same minor for 0.x, same patch for 0.0.x)
+ * - `~1.2.3` - same minor (same major for `~1`)
+ * - `>=1.2`, `>1.2`, `<=1.2`, `<1.2` - comparisons
+ *
+ * Returns false for ranges that can't be parsed.
+ */
+export function satisfiesVersion(version: SemanticVersion, range: string): boolean {
+  const trimmed = range.trim();
+  if (trimmed === "latest" || trimmed === "*" || trimmed === "") {
+    return true;
+  }
+
+  const match = /^(\^|~|>=|>|<=|<|=)?\s*v?(.+)$/.exec(trimmed);
+  const bound = match ? parseSemverFromString(match[2]) : null;
+  if (!match || !bound) {
+    return false;
+  }
+
+  const operator = match[1] ?? "";
+  const comparison = compareSemver(version, bound);
+  const [major, minor, patch] = versionParts(version);
+  const [boundMajor, boundMinor, boundPatch] = versionParts(bound);
+
+  switch (operator) {
+    case ">=":
+      return comparison >= 0;
+    case ">":
+      return comparison > 0;
+    case "<=":
+      return comparison <= 0;
+    case "<":
+      return comparison < 0;
+    case "^":
+      if (comparison < 0 || major !== boundMajor) return false;
+      if (boundMajor > 0 || !("minor" in bound)) return true;
+      if (minor !== boundMinor) return false;
+      return boundMinor > 0 || !("patch" in bound) || patch === boundPatch;
+    case "~":
+      return (
+        comparison >= 0 && major === boundMajor && (!("minor" in bound) || minor === boundMinor)
+      );
+    default:
+      // Partial versions act as prefixes: "1" matches 1.x, "1.2" matches 1.2.x
+      return (
+        major === boundMajor &&
+        (!("minor" in bound) || minor === boundMinor) &&
+        (!("patch" in bound) || patch === boundPatch)
+      );
+  }
+}
+
+/**
+ * Pick the highest available version satisfying a range
+ * Versions that can't be parsed are ignored; an undefined range means `latest`
+ *
+ * @example
+ * selectBestVersion(["0", "1.0.0", "1.2.0", "2.0.0"], "1") // => "1.2.0"
+ * selectBestVersion(["0", "1.0.0", "1.2.0", "2.0.0"]) // => "2.0.0"
+ */
+export function selectBestVersion(available: string[], range = "latest"): string | null {
+  let best: { version: string; semver: SemanticVersion } | null = null;
+
+  for (const version of available) {
+    const semver = parseSemverFromString(version);
+    if (!semver || !satisfiesVersion(semver, range)) continue;
+    if (!best || compareSemver(semver, best.semver) > 0) {
+      best = { version, semver };
+    }
+  }
+
+  return best?.version ?? null;
+}
+
 export function buildSchemaUri(
   params: Partial<SchemaUriComponents> & { category: string; name: string },
 ): string {
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { createUnifiedDiff } from "./unified-diff.js";
+
+describe("createUnifiedDiff", () => {
+  it("should return an empty string for equal texts", () => {
+    expect(createUnifiedDiff("a\nb\n", "a\nb\n")).toBe("");
+  });
+
+  it("should print changed lines with context", () => {
+    const before = ["1", "2", "3", "4", "5", "6", "7", "8"].join("\n");
+    const after = ["1", "2", "3", "4", "five", "6", "7", "8"].join("\n");
+
+    expect(createUnifiedDiff(before, after, { oldLabel: "old", newLabel: "new" })).toBe(
+      [
+        "--- old",
+        "+++ new",
+        "@@ -2,7 +2,7 @@",
+        " 2",
+        " 3",
+        " 4",
+        "-5",
+        "+five",
+        " 6",
+        " 7",
+        " 8",
+      ].join("\n"),
+    );
+  });
+
+  it("should split distant changes into hunks", () => {
+    const before = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`);
+    const after = [...before];
+    after[1] = "changed 2";
+    after[17] = "changed 18";
+
+    const diff = createUnifiedDiff(before.join("\n"), after.join("\n"), { context: 1 });
+
+    expect(diff.split("\n").filter((line) => line.startsWith("@@"))).toEqual([
+      "@@ -1,3 +1,3 @@",
+      "@@ -17,3 +17,3 @@",
+    ]);
+  });
+
+  it("should number empty ranges like diff -u", () => {
+    expect(createUnifiedDiff("", "added\n")).toBe(
+      ["--- a", "+++ b", "@@ -0,0 +1 @@", "+added"].join("\n"),
+    );
+  });
+});
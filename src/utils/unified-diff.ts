@@ -0,0 +1,115 @@
+/**
+ * Line based unified diffs, as printed by `diff -u`
+ */
+
+export interface UnifiedDiffOptions {
+  oldLabel?: string;
+  newLabel?: string;
+  context?: number; // Unchanged lines around each change (default: 3)
+}
+
+type DiffOperation = { kind: " " | "-" | "+"; line: string };
+
+/**
+ * Diff two lists of lines via their longest common subsequence
+ */
+function diffLines(before: string[], after: string[]): DiffOperation[] {
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const operations: DiffOperation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      operations.push({ kind: " ", line: before[i] });
+      i++;
+      j++;
+    } else if (
+      i < before.length &&
+      (j === after.length || lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      operations.push({ kind: "-", line: before[i] });
+      i++;
+    } else {
+      operations.push({ kind: "+", line: after[j] });
+      j++;
+    }
+  }
+  return operations;
+}
+
+function hunkRange(start: number, count: number): string {
+  // An empty range refers to the line before it
+  return count === 1 ? `${start + 1}` : `${count === 0 ? start : start + 1},${count}`;
+}
+
+/**
+ * Create a unified diff of two texts
+ * Returns an empty string when they are equal
+ *
+ * @example
+ * createUnifiedDiff("a\nb\n", "a\nc\n", { oldLabel: "old.txt", newLabel: "new.txt" })
+ * // => "--- old.txt\n+++ new.txt\n@@ -1,2 +1,2 @@\n a\n-b\n+c"
+ */
+export function createUnifiedDiff(
+  before: string,
+  after: string,
+  options: UnifiedDiffOptions = {},
+): string {
+  if (before === after) {
+    return "";
+  }
+
+  const { oldLabel = "a", newLabel = "b", context = 3 } = options;
+  const toLines = (text: string) => (text === "" ? [] : text.replace(/\n$/, "").split("\n"));
+  const operations = diffLines(toLines(before), toLines(after));
+
+  const lines = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  let index = 0;
+  while (index < operations.length) {
+    // Find the next change and extend the hunk while changes are close enough
+    const firstChange = operations.findIndex(
+      (op, position) => position >= index && op.kind !== " ",
+    );
+    if (firstChange === -1) break;
+
+    const start = Math.max(index, firstChange - context);
+    let end = firstChange;
+    let unchanged = 0;
+    for (let position = firstChange; position < operations.length; position++) {
+      if (operations[position].kind === " ") {
+        unchanged++;
+        if (unchanged > context * 2) break;
+      } else {
+        unchanged = 0;
+        end = position;
+      }
+    }
+    const stop = Math.min(operations.length, end + context + 1);
+
+    // Line numbers at the start of the hunk
+    const preceding = operations.slice(0, start);
+    const oldStart = preceding.filter((op) => op.kind !== "+").length;
+    const newStart = preceding.filter((op) => op.kind !== "-").length;
+    const hunk = operations.slice(start, stop);
+    const oldCount = hunk.filter((op) => op.kind !== "+").length;
+    const newCount = hunk.filter((op) => op.kind !== "-").length;
+
+    lines.push(`@@ -${hunkRange(oldStart, oldCount)} +${hunkRange(newStart, newCount)} @@`);
+    lines.push(...hunk.map((op) => `${op.kind}${op.line}`));
+    index = stop;
+  }
+
+  return lines.join("\n");
+}
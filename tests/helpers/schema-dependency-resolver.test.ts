@@ -1,4 +1,6 @@
-import { describe, expect, it } from "vitest";
+import { cp, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
 import {
   collectRequiredSchemas,
   collectRequiredSchemasForList,
@@ -140,4 +142,136 @@ describe("Schema Dependency Resolver", () => {
       expect(deps.functions).toContain("invert");
     });
   });
+
+  describe("input types", () => {
+    it("should add the types on conversion paths to function requirements", async () => {
+      const deps = await collectRequiredSchemasForList([{ slug: "mix", type: "function" }], {
+        inputTypes: ["hex-color"],
+      });
+
+      // mix requires oklch-color and srgb-color, hex-color reaches them through rgb-color
+      expect(deps.types).toEqual(expect.arrayContaining(["hex-color", "rgb-color", "oklch-color"]));
+
+      const toOklch = deps.conversionPaths?.find((path) => path.requiredType === "oklch-color");
+      expect(toOklch?.function).toBe("mix");
+      expect(toOklch?.path[0]).toBe("hex-color");
+      expect(toOklch?.path.at(-1)).toBe("oklch-color");
+      expect(toOklch?.added).toContain("rgb-color");
+    });
+
+    it("should not report conversion paths without input types", async () => {
+      const deps = await collectRequiredSchemasForList([{ slug: "mix", type: "function" }]);
+
+      expect(deps.types).not.toContain("hex-color");
+      expect(deps.conversionPaths).toBeUndefined();
+    });
+  });
+
+  describe("cycle detection", () => {
+    const schemasDir = join(process.cwd(), "test-resolver-cycles");
+
+    async function writeFunction(slug: string, requirements: string[]) {
+      const dir = join(schemasDir, "functions", slug);
+      await mkdir(dir, { recursive: true });
+      await writeFile(
+        join(dir, "schema.json"),
+        JSON.stringify({
+          name: slug,
+          type: "function",
+          keyword: slug,
+          script: { type: "/api/v1/core/tokenscript/0/", script: "return 1;" },
+          requirements,
+        }),
+      );
+    }
+
+    beforeAll(async () => {
+      await writeFunction("first", ["/api/v1/function/second/0/"]);
+      await writeFunction("second", ["/api/v1/function/first/0/"]);
+    });
+
+    afterAll(async () => {
+      await rm(schemasDir, { recursive: true, force: true });
+    });
+
+    it("should report requirement cycles with their path", async () => {
+      const deps = await collectRequiredSchemas("first", "function", { schemasDir });
+
+      expect(deps.functions).toEqual(["second", "first"]);
+      expect(deps.cycles).toEqual([
+        {
+          kind: "requirement",
+          path: ["function:first", "function:second", "function:first"],
+        },
+      ]);
+    });
+
+    it("should report each cycle once across requested schemas", async () => {
+      const deps = await collectRequiredSchemasForList(
+        [
+          { slug: "first", type: "function" },
+          { slug: "second", type: "function" },
+        ],
+        { schemasDir },
+      );
+
+      expect(deps.cycles).toHaveLength(1);
+    });
+
+    it("should classify cycles through color conversions as conversion cycles", async () => {
+      const deps = await collectRequiredSchemas("oklch-color", "type", {
+        includeColorTypeDependencies: true,
+      });
+
+      expect(deps.cycles.length).toBeGreaterThan(0);
+      expect(deps.cycles.every((cycle) => cycle.kind === "conversion")).toBe(true);
+      expect(deps.cycles.every((cycle) => cycle.path[0] === cycle.path.at(-1))).toBe(true);
+    });
+  });
+
+  describe("partial version requirements", () => {
+    const schemasDir = join(process.cwd(), "test-resolver-versions");
+    const builtInDir = join(process.cwd(), "src/schemas");
+
+    beforeAll(async () => {
+      for (const version of ["1.0.0", "1.2.0", "2.0.0"]) {
+        await cp(
+          join(builtInDir, "types", "rgb-color"),
+          join(schemasDir, "types", "rgb-color", version),
+          { recursive: true },
+        );
+      }
+
+      const functionDir = join(schemasDir, "functions", "invert");
+      await mkdir(functionDir, { recursive: true });
+      await cp(join(builtInDir, "functions", "invert"), functionDir, { recursive: true });
+      const schema = JSON.parse(await readFile(join(functionDir, "schema.json"), "utf-8"));
+      await writeFile(
+        join(functionDir, "schema.json"),
+        JSON.stringify({ ...schema, requirements: ["/api/v1/core/rgb-color/1/"] }),
+      );
+    });
+
+    afterAll(async () => {
+      await rm(schemasDir, { recursive: true, force: true });
+    });
+
+    it("should resolve a major-only requirement to the highest matching version", async () => {
+      const deps = await collectRequiredSchemas("invert", "function", { schemasDir });
+
+      expect(deps.types).toEqual(["rgb-color@1.2.0"]);
+    });
+
+    it("should resolve version ranges in requests", async () => {
+      const deps = await collectRequiredSchemasForList(
+        [
+          { slug: "rgb-color", type: "type", version: "~1.0" },
+          { slug: "rgb-color", type: "type", version: ">=1.1" },
+        ],
+        { schemasDir },
+      );
+
+      expect(deps.types).toEqual(["rgb-color@1.0.0", "rgb-color@2.0.0"]);
+    });
+  });
 });